@@ -0,0 +1,275 @@
+import oracledb from "oracledb";
+import { DbConfig, withConnection, queryRows } from "./db";
+import { SampleData, loadSampleData } from "./bundle";
+import { sampleRuns } from "./completeness";
+import { buildDiagReport } from "./report";
+import { defaultPolicy } from "./policy";
+import { CURRENT_INCARNATION, percentile, round2 } from "./common";
+
+// Debezium's bounds for log.mining.batch.size.*
+const BATCH_SIZE_MIN = 1000;
+const BATCH_SIZE_LIMIT = 100000;
+
+// Longest a single mining query should run at the largest batch size, so a
+// catch-up window does not hold a LogMiner session open for long.
+const MAX_QUERY_SECONDS = 10;
+
+// Mining throughput relative to the peak SCN rate below which the connector
+// should poll continuously rather than sleep between queries.
+const LOW_HEADROOM = 2;
+
+export interface BenchmarkOptions {
+  logs: number;
+}
+
+interface ArchiveFile {
+  NAME: string;
+  THREAD: number;
+  SEQUENCE: number;
+  FIRST_SCN: number;
+  NEXT_SCN: number;
+  BYTES: number;
+  SECONDS: number;
+}
+
+// One pass over v$logmnr_contents.
+export interface MiningRun {
+  label: string;
+  rows: number;
+  seconds: number;
+  rowsPerSec: number;
+  scnsPerSec: number;
+  mbPerSec: number;
+}
+
+export interface BenchmarkSettings {
+  batchSizeMin: number;
+  batchSizeDefault: number;
+  batchSizeMax: number;
+  sleepTimeMinMs: number;
+  sleepTimeDefaultMs: number;
+  sleepTimeMaxMs: number;
+  // Filtered mining throughput over the peak SCN generation rate
+  headroom: number;
+}
+
+export async function benchmark(cfg: DbConfig, opts: BenchmarkOptions): Promise<void> {
+  const schema = process.env.CAPTURE_SCHEMA;
+  const tablePattern = process.env.CAPTURE_TABLE_PATTERN;
+  if (!schema || !tablePattern) {
+    throw new Error("Missing CAPTURE_SCHEMA or CAPTURE_TABLE_PATTERN");
+  }
+  if (!Number.isInteger(opts.logs) || opts.logs < 1) {
+    throw new Error(`--logs must be a whole number of at least 1, got ${opts.logs}`);
+  }
+
+  await withConnection(cfg, async (conn) => {
+    const files = await pickArchives(conn, opts.logs);
+    const startScn = Math.min(...files.map((f) => f.FIRST_SCN));
+    const endScn = Math.max(...files.map((f) => f.NEXT_SCN));
+    const totalBytes = files.reduce((sum, f) => sum + f.BYTES, 0);
+
+    console.log(`Mining ${files.length} archived log(s), SCN ${startScn} to ${endScn} (${(totalBytes / 1024 ** 3).toFixed(2)} GB):`);
+    for (const f of files) console.log(`  thread ${f.THREAD} sequence ${f.SEQUENCE}  ${f.NAME}`);
+
+    await startLogMiner(conn, files, startScn, endScn);
+    let runs: MiningRun[];
+    try {
+      const unfiltered = await timeMining(conn, "all redo", "1 = 1", {}, startScn, endScn, totalBytes);
+      const filtered = await timeMining(
+        conn,
+        `${schema} matching ${tablePattern}`,
+        // Transaction boundaries come back unfiltered, as they do for Debezium.
+        "(seg_owner = :schema AND REGEXP_LIKE(table_name, :pattern)) OR operation_code IN (6, 7, 36)",
+        { schema, pattern: tablePattern },
+        startScn,
+        endScn,
+        totalBytes
+      );
+      runs = [unfiltered, filtered];
+    } finally {
+      await conn.execute("BEGIN DBMS_LOGMNR.END_LOGMNR; END;").catch(() => undefined);
+    }
+
+    const data = await loadSampleData(conn, cfg.user).catch(() => null);
+    const sampledScnRate = data ? peakScnRate(data) : null;
+    const archiveScnRate = (endScn - startScn) / Math.max(1, files.reduce((max, f) => Math.max(max, f.SECONDS), 0));
+    const scnRate = sampledScnRate ?? archiveScnRate;
+
+    printRuns(runs);
+    console.log();
+    console.log(sampledScnRate !== null
+      ? `Peak SCN rate (p95 of the samples): ${Math.round(sampledScnRate)} SCN/s`
+      : `SCN rate while the mined logs were written: ${Math.round(archiveScnRate)} SCN/s (no samples to take the peak from)`);
+
+    const settings = recommendSettings(runs[1], scnRate);
+    printSettings(settings, data);
+  });
+}
+
+// ── LogMiner ────────────────────────────────────────────────────────────────
+
+// The most recent `count` archives, plus every other thread's archives in the
+// same SCN range: on RAC LogMiner refuses a range with a thread missing.
+async function pickArchives(conn: oracledb.Connection, count: number): Promise<ArchiveFile[]> {
+  const available = `
+    SELECT name AS NAME, thread# AS THREAD, sequence# AS SEQUENCE, first_change# AS FIRST_SCN,
+           next_change# AS NEXT_SCN, blocks * block_size AS BYTES, (next_time - first_time) * 86400 AS SECONDS,
+           ROW_NUMBER() OVER (PARTITION BY thread#, sequence# ORDER BY dest_id) AS copy_num
+    FROM v$archived_log
+    WHERE deleted = 'NO' AND name IS NOT NULL AND standby_dest = 'NO' AND ${CURRENT_INCARNATION}`;
+
+  const recent = await queryRows<ArchiveFile>(conn, `
+    SELECT * FROM (${available}) WHERE copy_num = 1
+    ORDER BY NEXT_SCN DESC
+    FETCH FIRST :count ROWS ONLY
+  `, { count });
+  if (recent.length === 0) throw new Error("No archived logs on disk to mine");
+
+  const startScn = Math.min(...recent.map((f) => f.FIRST_SCN));
+  const endScn = Math.max(...recent.map((f) => f.NEXT_SCN));
+  return queryRows<ArchiveFile>(conn, `
+    SELECT NAME, THREAD, SEQUENCE, FIRST_SCN, NEXT_SCN, BYTES, SECONDS FROM (${available})
+    WHERE copy_num = 1 AND NEXT_SCN > :startScn AND FIRST_SCN < :endScn
+    ORDER BY THREAD, SEQUENCE
+  `, { startScn, endScn });
+}
+
+async function startLogMiner(conn: oracledb.Connection, files: ArchiveFile[], startScn: number, endScn: number): Promise<void> {
+  try {
+    for (const [i, f] of files.entries()) {
+      await conn.execute(
+        `BEGIN DBMS_LOGMNR.ADD_LOGFILE(LOGFILENAME => :name, OPTIONS => ${i === 0 ? "DBMS_LOGMNR.NEW" : "DBMS_LOGMNR.ADDFILE"}); END;`,
+        { name: f.NAME }
+      );
+    }
+    await conn.execute(
+      `BEGIN DBMS_LOGMNR.START_LOGMNR(STARTSCN => :startScn, ENDSCN => :endScn, OPTIONS => DBMS_LOGMNR.DICT_FROM_ONLINE_CATALOG); END;`,
+      { startScn, endScn }
+    );
+  } catch (e: any) {
+    if (/ORA-01031|PLS-00201|ORA-06550/.test(e.message)) {
+      throw new Error(`Cannot start LogMiner (${e.message.split("\n")[0]}). ` +
+        "The diagnostic user needs LOGMINING and EXECUTE ON SYS.DBMS_LOGMNR for benchmark.");
+    }
+    throw e;
+  }
+}
+
+// Each query over v$logmnr_contents mines the logs again, so the two runs are
+// independent measurements.
+async function timeMining(
+  conn: oracledb.Connection,
+  label: string,
+  where: string,
+  binds: Record<string, string>,
+  startScn: number,
+  endScn: number,
+  bytes: number
+): Promise<MiningRun> {
+  const started = Date.now();
+  const rows = await queryRows<{ CNT: number }>(conn, `SELECT COUNT(*) AS CNT FROM v$logmnr_contents WHERE ${where}`, binds);
+  const seconds = Math.max(0.001, (Date.now() - started) / 1000);
+
+  return {
+    label,
+    rows: rows[0]?.CNT ?? 0,
+    seconds: round2(seconds),
+    rowsPerSec: Math.round((rows[0]?.CNT ?? 0) / seconds),
+    scnsPerSec: Math.round((endScn - startScn) / seconds),
+    mbPerSec: round2(bytes / 1024 ** 2 / seconds),
+  };
+}
+
+// ── Recommendations ─────────────────────────────────────────────────────────
+
+// p95 of the SCN advance between consecutive sampler runs.
+function peakScnRate(data: SampleData): number | null {
+  const points = sampleRuns(data)
+    .filter((run) => run.values.has("current_scn"))
+    .map((run) => ({ ms: run.ms, scn: run.values.get("current_scn")! }));
+
+  const rates: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const seconds = (points[i].ms - points[i - 1].ms) / 1000;
+    if (seconds > 0 && points[i].scn >= points[i - 1].scn) rates.push((points[i].scn - points[i - 1].scn) / seconds);
+  }
+  if (rates.length === 0) return null;
+  return percentile(rates.sort((a, b) => a - b), 0.95);
+}
+
+/**
+ * The default batch covers the SCNs the peak generates during one sleep plus
+ * the query that follows it, so a single query catches up. The maximum is
+ * what the measured throughput mines in MAX_QUERY_SECONDS.
+ */
+function recommendSettings(filtered: MiningRun, scnRate: number): BenchmarkSettings {
+  const headroom = scnRate > 0 ? filtered.scnsPerSec / scnRate : Infinity;
+  const lowHeadroom = headroom < LOW_HEADROOM;
+
+  const sleepTimeDefaultMs = lowHeadroom ? 200 : 1000;
+  const queryTimeSec = scnRate > 0 && filtered.scnsPerSec > 0 ? scnRate / filtered.scnsPerSec : 0;
+  const batchSizeDefault = clampBatch(roundUp(scnRate * (sleepTimeDefaultMs / 1000 + queryTimeSec), 1000));
+  const batchSizeMax = Math.max(batchSizeDefault, clampBatch(roundUp(filtered.scnsPerSec * MAX_QUERY_SECONDS, 1000)));
+
+  return {
+    batchSizeMin: BATCH_SIZE_MIN,
+    batchSizeDefault,
+    batchSizeMax,
+    sleepTimeMinMs: 0,
+    sleepTimeDefaultMs,
+    sleepTimeMaxMs: lowHeadroom ? 1000 : 3000,
+    headroom: round2(headroom),
+  };
+}
+
+function clampBatch(n: number): number {
+  return Math.min(BATCH_SIZE_LIMIT, Math.max(BATCH_SIZE_MIN, n));
+}
+
+function roundUp(n: number, step: number): number {
+  return Math.ceil(n / step) * step;
+}
+
+// ── Output ──────────────────────────────────────────────────────────────────
+
+function printRuns(runs: MiningRun[]): void {
+  console.log();
+  console.log(`  ${"Filter".padEnd(40)} ${"Rows".padStart(10)} ${"Seconds".padStart(8)} ${"Rows/s".padStart(10)} ${"SCN/s".padStart(10)} ${"MB/s".padStart(8)}`);
+  for (const r of runs) {
+    console.log(`  ${r.label.slice(0, 40).padEnd(40)} ${String(r.rows).padStart(10)} ${String(r.seconds).padStart(8)} ${String(r.rowsPerSec).padStart(10)} ${String(r.scnsPerSec).padStart(10)} ${String(r.mbPerSec).padStart(8)}`);
+  }
+}
+
+function printSettings(s: BenchmarkSettings, data: SampleData | null): void {
+  const lines: string[] = [];
+  const ln = (str = "") => lines.push(str);
+
+  ln(`Filtered mining runs at ${s.headroom === Infinity ? "∞" : `${s.headroom}×`} the peak SCN rate.`);
+  if (s.headroom < 1) {
+    ln("⚠ LogMiner cannot keep up with the peak on this hardware: expect lag to grow during peaks. " +
+      "Narrow the capture set or mine on a standby.");
+  } else if (s.headroom < LOW_HEADROOM) {
+    ln("⚠ Little headroom: the connector should poll without long sleeps.");
+  }
+
+  ln();
+  ln("Recommended settings:");
+  ln(`  log.mining.batch.size.min=${s.batchSizeMin}`);
+  ln(`  log.mining.batch.size.default=${s.batchSizeDefault}`);
+  ln(`  log.mining.batch.size.max=${s.batchSizeMax}`);
+  ln(`  log.mining.sleep.time.min.ms=${s.sleepTimeMinMs}`);
+  ln(`  log.mining.sleep.time.default.ms=${s.sleepTimeDefaultMs}`);
+  ln(`  log.mining.sleep.time.max.ms=${s.sleepTimeMaxMs}`);
+
+  // The report's capture-ratio heuristic, for comparison
+  if (data) {
+    const r = buildDiagReport(data, defaultPolicy());
+    if (r.samplingDurationHours >= 1) {
+      ln();
+      ln(`Report heuristic: batch.size.default=${r.recommendations.batchSizeDefault}, batch.size.max=${r.recommendations.batchSizeMax}`);
+    }
+  }
+
+  console.log(lines.join("\n"));
+}
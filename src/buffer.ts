@@ -0,0 +1,71 @@
+import { SampleData } from "./bundle";
+import { TopicEstimate } from "./topics";
+import { percentile, round2 } from "./common";
+
+// What the connector's transaction buffer would have held: every change of
+// every open transaction stays buffered until its commit or rollback. Undo
+// records are the sampled stand-in for those changes; they also count index
+// entries and changes to tables outside the capture set, so the estimate errs
+// high.
+export interface BufferEstimate {
+  p95Events: number;
+  maxEvents: number;
+  // Sample time of maxEvents
+  maxAt: string | null;
+  largestTxnEvents: number;
+  eventBytes: number;
+  p95Mb: number;
+  maxMb: number;
+  // Undo the open transactions held at maxAt, for comparison
+  undoMbAtMax: number;
+  samples: number;
+}
+
+// Heap tier of the ehcache events cache; the rest spills to disk.
+export const EHCACHE_HEAP_MB = 256;
+
+// A buffered event keeps the redo SQL text (column names and quoted values,
+// held as UTF-16) plus the parsed row and LogMiner metadata.
+const REDO_SQL_FACTOR = 4;
+const EVENT_OVERHEAD_BYTES = 1024;
+const DEFAULT_ROW_LEN = 200;
+
+/** Null when the sampler never recorded undo usage. */
+export function estimateBuffer(data: SampleData, topics: TopicEstimate[], tableStats: any[]): BufferEstimate | null {
+  const records = data.samples.filter((s) => s.metric === "txn_undo_records");
+  if (records.length === 0) return null;
+
+  const eventBytes = Math.round(averageRowLen(topics, tableStats) * REDO_SQL_FACTOR + EVENT_OVERHEAD_BYTES);
+  const peak = records.reduce((a, b) => (b.value > a.value ? b : a));
+  const sorted = records.map((s) => s.value).sort((a, b) => a - b);
+  const p95Events = Math.round(percentile(sorted, 0.95));
+  const largest = data.samples
+    .filter((s) => s.metric === "txn_max_undo_records")
+    .reduce((max, s) => Math.max(max, s.value), 0);
+  const undoAtMax = data.samples.find((s) => s.metric === "txn_undo_mb" && s.time === peak.time);
+
+  return {
+    p95Events,
+    maxEvents: peak.value,
+    maxAt: peak.value > 0 ? peak.time : null,
+    largestTxnEvents: largest,
+    eventBytes,
+    p95Mb: toMb(p95Events * eventBytes),
+    maxMb: toMb(peak.value * eventBytes),
+    undoMbAtMax: round2(undoAtMax?.value ?? 0),
+    samples: records.length,
+  };
+}
+
+// Weighted by each captured table's change rate when DML was sampled.
+function averageRowLen(topics: TopicEstimate[], tableStats: any[]): number {
+  const events = topics.reduce((sum, t) => sum + t.eventsPerSec, 0);
+  if (events > 0) return topics.reduce((sum, t) => sum + t.avgRowLen * t.eventsPerSec, 0) / events;
+
+  const lens = (tableStats ?? []).map((t: any) => t.AVG_ROW_LEN ?? 0).filter((n: number) => n > 0);
+  return lens.length > 0 ? lens.reduce((a: number, b: number) => a + b, 0) / lens.length : DEFAULT_ROW_LEN;
+}
+
+function toMb(bytes: number): number {
+  return round2(bytes / 1024 / 1024);
+}
@@ -0,0 +1,217 @@
+import oracledb from "oracledb";
+import * as fs from "fs";
+import * as path from "path";
+import { DbConfig, withConnection, queryRows, getConnectString } from "./db";
+import { TxnDetail, txnDetailFromRow } from "./sampler";
+import { DATE_TIME_FORMAT, TIME_FORMAT } from "./common";
+
+const SAMPLE_TABLE = "DBZ_DIAG_SAMPLES";
+const STATIC_TABLE = "DBZ_DIAG_STATIC";
+const TXN_TABLE = "DBZ_DIAG_TXN_DETAIL";
+
+export const BUNDLE_FORMAT = "dbz-diag-bundle";
+export const BUNDLE_VERSION = 1;
+
+export type BundleFormat = "json" | "ndjson";
+
+// Timestamps are kept as the database's wall-clock time (no zone), exactly as
+// stored in the TIMESTAMP columns, so a bundle read on another host reports
+// the same hours as the database it came from.
+export interface Sample {
+  time: string;
+  metric: string;
+  value: number;
+}
+
+export interface StaticCheck {
+  time: string;
+  name: string;
+  value: string;
+}
+
+export interface TxnSample extends TxnDetail {
+  time: string;
+}
+
+export interface BundleHeader {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: string;
+  intervalMinutes: number;
+}
+
+export interface SampleData {
+  intervalMinutes: number;
+  samples: Sample[];
+  statics: StaticCheck[];
+  // Oldest open transactions per sample; empty for bundles and sample tables
+  // that predate transaction detail.
+  transactions: TxnSample[];
+}
+
+export function getIntervalMinutes(): number {
+  return parseInt(process.env.SAMPLE_INTERVAL_MINUTES ?? "15", 10);
+}
+
+/** Milliseconds for a wall-clock sample time; only meaningful for differences and hour/day extraction in UTC. */
+export function sampleTimeMs(time: string): number {
+  return Date.parse(`${time}Z`);
+}
+
+export async function loadSampleData(conn: oracledb.Connection, user: string): Promise<SampleData> {
+  const samples = await queryRows<{ SAMPLE_TIME: string; METRIC_NAME: string; METRIC_VALUE: number }>(conn, `
+    SELECT TO_CHAR(sample_time, ${TIME_FORMAT}) AS SAMPLE_TIME, metric_name AS METRIC_NAME, metric_value AS METRIC_VALUE
+    FROM ${user}.${SAMPLE_TABLE}
+    ORDER BY sample_time
+  `);
+  const statics = await queryRows<{ CHECK_TIME: string; CHECK_NAME: string; CHECK_VALUE: string }>(conn, `
+    SELECT TO_CHAR(check_time, ${TIME_FORMAT}) AS CHECK_TIME, check_name AS CHECK_NAME, check_value AS CHECK_VALUE
+    FROM ${user}.${STATIC_TABLE}
+    ORDER BY check_time
+  `);
+
+  return {
+    intervalMinutes: getIntervalMinutes(),
+    samples: samples.map((s) => ({ time: s.SAMPLE_TIME, metric: s.METRIC_NAME, value: s.METRIC_VALUE ?? 0 })),
+    statics: statics.map((s) => ({ time: s.CHECK_TIME, name: s.CHECK_NAME, value: s.CHECK_VALUE ?? "" })),
+    transactions: await loadTransactions(conn, user),
+  };
+}
+
+async function loadTransactions(conn: oracledb.Connection, user: string): Promise<TxnSample[]> {
+  try {
+    const rows = await queryRows(conn, `
+      SELECT TO_CHAR(sample_time, ${TIME_FORMAT}) AS SAMPLE_TIME,
+             inst_id AS INST_ID, sid AS SID, serial_num AS SERIAL_NUM,
+             username AS USERNAME, program AS PROGRAM, module AS MODULE, machine AS MACHINE, sql_id AS SQL_ID,
+             TO_CHAR(start_time, ${DATE_TIME_FORMAT}) AS START_TIME,
+             age_mins AS AGE_MINS, start_scn AS START_SCN, used_ublk AS USED_UBLK, used_urec AS USED_UREC
+      FROM ${user}.${TXN_TABLE}
+      ORDER BY sample_time
+    `);
+    return rows.map((r: any) => ({ time: r.SAMPLE_TIME, ...txnDetailFromRow(r) }));
+  } catch (e: any) {
+    // Set up before transaction detail existed; the samples are still usable.
+    if (/ORA-00942/.test(e.message)) return [];
+    throw e;
+  }
+}
+
+// ── Export ──────────────────────────────────────────────────────────────────
+
+export async function exportBundle(cfg: DbConfig, outPath: string, format?: BundleFormat): Promise<void> {
+  const resolvedFormat = format ?? inferFormat(outPath);
+
+  await withConnection(cfg, async (conn) => {
+    console.log("Reading collected data...");
+    const data = await loadSampleData(conn, cfg.user);
+
+    const header = bundleHeader(cfg, data.intervalMinutes);
+
+    const outFile = path.resolve(outPath);
+    fs.writeFileSync(outFile, serializeBundle(header, data, resolvedFormat));
+
+    console.log(`\n✓ Exported ${data.samples.length} samples, ${data.statics.length} static checks and ${data.transactions.length} transaction details.`);
+    console.log(`  Bundle: ${outFile} (${resolvedFormat})`);
+    console.log(`  Generate the report elsewhere with: npm run report -- --from ${path.basename(outFile)}`);
+  });
+}
+
+export function bundleHeader(cfg: DbConfig, intervalMinutes: number): BundleHeader {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: `${cfg.user}@${getConnectString(cfg)}`,
+    intervalMinutes,
+  };
+}
+
+export function ndjsonLine(type: "header" | "sample" | "static" | "txn", body: object): string {
+  return JSON.stringify({ type, ...body }) + "\n";
+}
+
+function inferFormat(outPath: string): BundleFormat {
+  const ext = path.extname(outPath).toLowerCase();
+  return ext === ".ndjson" || ext === ".jsonl" ? "ndjson" : "json";
+}
+
+function serializeBundle(header: BundleHeader, data: SampleData, format: BundleFormat): string {
+  if (format === "json") {
+    return JSON.stringify({ ...header, samples: data.samples, statics: data.statics, transactions: data.transactions }, null, 2);
+  }
+  const lines = [ndjsonLine("header", header)];
+  for (const s of data.samples) lines.push(ndjsonLine("sample", s));
+  for (const s of data.statics) lines.push(ndjsonLine("static", s));
+  for (const t of data.transactions) lines.push(ndjsonLine("txn", t));
+  return lines.join("");
+}
+
+// ── Import ──────────────────────────────────────────────────────────────────
+
+export function readBundle(file: string): SampleData {
+  const raw = fs.readFileSync(file, "utf8");
+  const firstLine = raw.slice(0, raw.indexOf("\n") === -1 ? raw.length : raw.indexOf("\n")).trim();
+
+  let firstRecord: any = null;
+  try {
+    firstRecord = JSON.parse(firstLine);
+  } catch {
+    // Not a single-line record, so it must be a pretty-printed JSON bundle
+  }
+
+  return firstRecord?.type === "header" ? parseNdjson(raw, file) : parseJson(raw, file);
+}
+
+function parseJson(raw: string, file: string): SampleData {
+  let doc: any;
+  try {
+    doc = JSON.parse(raw);
+  } catch (e: any) {
+    throw new Error(`${file} is not a valid bundle: ${e.message}`);
+  }
+  const header = checkHeader(doc, file);
+  return {
+    intervalMinutes: header.intervalMinutes,
+    samples: doc.samples ?? [],
+    statics: doc.statics ?? [],
+    transactions: doc.transactions ?? [],
+  };
+}
+
+function parseNdjson(raw: string, file: string): SampleData {
+  const samples: Sample[] = [];
+  const statics: StaticCheck[] = [];
+  const transactions: TxnSample[] = [];
+  let header: BundleHeader | null = null;
+
+  raw.split("\n").forEach((line, i) => {
+    if (!line.trim()) return;
+    let rec: any;
+    try {
+      rec = JSON.parse(line);
+    } catch (e: any) {
+      throw new Error(`${file}:${i + 1} is not valid JSON: ${e.message}`);
+    }
+    const { type, ...body } = rec;
+    if (type === "header") header = checkHeader(body, file);
+    else if (type === "sample") samples.push(body as Sample);
+    else if (type === "static") statics.push(body as StaticCheck);
+    else if (type === "txn") transactions.push(body as TxnSample);
+  });
+
+  if (!header) throw new Error(`${file} has no bundle header`);
+  const intervalMinutes = (header as BundleHeader).intervalMinutes;
+  return { intervalMinutes, samples, statics, transactions };
+}
+
+function checkHeader(doc: any, file: string): BundleHeader {
+  if (doc?.format !== BUNDLE_FORMAT) {
+    throw new Error(`${file} is not a ${BUNDLE_FORMAT} file`);
+  }
+  if (typeof doc.version !== "number" || doc.version > BUNDLE_VERSION) {
+    throw new Error(`${file} has bundle version ${doc.version}; this tool reads up to version ${BUNDLE_VERSION}`);
+  }
+  return { ...doc, intervalMinutes: doc.intervalMinutes ?? getIntervalMinutes() };
+}
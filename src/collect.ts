@@ -0,0 +1,218 @@
+import oracledb from "oracledb";
+import * as fs from "fs";
+import * as path from "path";
+import { DbConfig, withConnection, queryRows } from "./db";
+import { bundleHeader, getIntervalMinutes, ndjsonLine, readBundle, sampleTimeMs } from "./bundle";
+import { TxnDetail, gatherStatic, sampleMetrics, sampleTransactions } from "./sampler";
+import { collectStatic, createMissingTables } from "./setup";
+import { DATE_TIME_FORMAT, TIME_FORMAT, round2 } from "./common";
+
+const SAMPLE_TABLE = "DBZ_DIAG_SAMPLES";
+const STATIC_TABLE = "DBZ_DIAG_STATIC";
+const TXN_TABLE = "DBZ_DIAG_TXN_DETAIL";
+
+export type CollectTarget = "table" | "file";
+
+export interface CollectOptions {
+  target: CollectTarget;
+  out: string;
+  count?: number;
+}
+
+// Where samples go. Both sinks can report what they already hold so a restarted
+// collector picks up the schedule instead of sampling twice or re-reading statics.
+interface SampleSink {
+  describe(): string;
+  prepare(conn: oracledb.Connection): Promise<void>;
+  lastSampleTime(conn: oracledb.Connection): Promise<string | null>;
+  hasStatic(conn: oracledb.Connection): Promise<boolean>;
+  writeStatic(conn: oracledb.Connection, schema: string, tablePattern: string): Promise<void>;
+  writeSample(
+    conn: oracledb.Connection,
+    time: string,
+    values: Array<{ metric: string; value: number }>,
+    transactions: TxnDetail[]
+  ): Promise<void>;
+}
+
+export async function collect(cfg: DbConfig, opts: CollectOptions): Promise<void> {
+  const schema = process.env.CAPTURE_SCHEMA;
+  const tablePattern = process.env.CAPTURE_TABLE_PATTERN;
+  const intervalMin = getIntervalMinutes();
+
+  if (!schema || !tablePattern) {
+    throw new Error("Missing CAPTURE_SCHEMA or CAPTURE_TABLE_PATTERN");
+  }
+
+  const sink = opts.target === "file" ? fileSink(cfg, path.resolve(opts.out), intervalMin) : tableSink(cfg.user);
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    if (stopping) process.exit(130);
+    stopping = true;
+    console.log("\nStopping after the current sample (Ctrl-C again to abort)...");
+    wake?.();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  const sleep = (ms: number) => new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+  let waitMs = await withConnection(cfg, async (conn) => {
+    await sink.prepare(conn);
+
+    if (!(await sink.hasStatic(conn))) {
+      console.log("Collecting static diagnostics...");
+      await sink.writeStatic(conn, schema, tablePattern);
+    }
+
+    const last = await sink.lastSampleTime(conn);
+    if (!last) return 0;
+    const elapsedMs = sampleTimeMs(await dbNow(conn)) - sampleTimeMs(last);
+    const remainingMs = Math.max(intervalMin * 60000 - elapsedMs, 0);
+    console.log(`Resuming after last sample at ${last}.`);
+    return remainingMs;
+  });
+
+  console.log(`Sampling every ${intervalMin} min into ${sink.describe()}. Press Ctrl-C to stop.`);
+
+  let taken = 0;
+  while (!stopping && (opts.count === undefined || taken < opts.count)) {
+    if (waitMs > 0) {
+      await sleep(waitMs);
+      if (stopping) break;
+    }
+
+    const startedAt = Date.now();
+    try {
+      await withConnection(cfg, async (conn) => {
+        const values = await sampleMetrics(conn, { intervalMin, schema, tablePattern });
+        const transactions = await sampleTransactions(conn);
+        const time = await dbNow(conn);
+        await sink.writeSample(conn, time, values, transactions);
+        console.log(`  ${time}  ${values.map((v) => `${v.metric}=${round2(v.value)}`).join(" ")}`);
+      });
+      taken++;
+    } catch (e: any) {
+      // Keep the schedule; a later tick retries with a fresh connection.
+      console.error(`  ✗ Sample failed: ${e.message}`);
+    }
+    waitMs = Math.max(intervalMin * 60000 - (Date.now() - startedAt), 0);
+  }
+
+  process.off("SIGINT", stop);
+  process.off("SIGTERM", stop);
+  console.log(`\n✓ Collected ${taken} sample(s).`);
+}
+
+async function dbNow(conn: oracledb.Connection): Promise<string> {
+  const rows = await queryRows<{ NOW: string }>(conn, `SELECT TO_CHAR(SYSTIMESTAMP, ${TIME_FORMAT}) AS NOW FROM dual`);
+  return rows[0].NOW;
+}
+
+// ── Sinks ───────────────────────────────────────────────────────────────────
+
+function tableSink(user: string): SampleSink {
+  return {
+    describe: () => `${user}.${SAMPLE_TABLE}`,
+
+    prepare: (conn) => createMissingTables(conn, user),
+
+    async lastSampleTime(conn) {
+      const rows = await queryRows<{ LAST_TIME: string | null }>(conn, `
+        SELECT TO_CHAR(MAX(sample_time), ${TIME_FORMAT}) AS LAST_TIME FROM ${user}.${SAMPLE_TABLE}
+      `);
+      return rows[0]?.LAST_TIME ?? null;
+    },
+
+    async hasStatic(conn) {
+      const rows = await queryRows<{ CNT: number }>(conn, `SELECT COUNT(*) AS CNT FROM ${user}.${STATIC_TABLE}`);
+      return (rows[0]?.CNT ?? 0) > 0;
+    },
+
+    writeStatic: (conn, schema, tablePattern) => collectStatic(conn, user, schema, tablePattern),
+
+    async writeSample(conn, time, values, transactions) {
+      if (transactions.length > 0) {
+        await conn.executeMany(
+          `INSERT INTO ${user}.${TXN_TABLE}
+             (sample_time, inst_id, sid, serial_num, username, program, module, machine, sql_id,
+              start_time, age_mins, start_scn, used_ublk, used_urec)
+           VALUES (TO_TIMESTAMP(:time, ${TIME_FORMAT}), :instId, :sid, :serial, :username, :program, :module, :machine, :sqlId,
+              TO_DATE(:startTime, ${DATE_TIME_FORMAT}), :ageMins, :startScn, :usedUblk, :usedUrec)`,
+          transactions.map((t) => ({ time, ...t })),
+          { autoCommit: false }
+        );
+      }
+      await conn.executeMany(
+        `INSERT INTO ${user}.${SAMPLE_TABLE} (sample_time, metric_name, metric_value)
+         VALUES (TO_TIMESTAMP(:time, ${TIME_FORMAT}), :metric, :value)`,
+        values.map((v) => ({ time, metric: v.metric, value: v.value })),
+        { autoCommit: true }
+      );
+    },
+  };
+}
+
+function fileSink(cfg: DbConfig, file: string, intervalMin: number): SampleSink {
+  let lastTime: string | null = null;
+  let staticPresent = false;
+
+  return {
+    describe: () => file,
+
+    async prepare() {
+      // A collector killed mid-write can leave a partial last line behind.
+      if (fs.existsSync(file)) {
+        const raw = fs.readFileSync(file, "utf8");
+        if (!raw.endsWith("\n")) {
+          fs.truncateSync(file, Buffer.byteLength(raw.slice(0, raw.lastIndexOf("\n") + 1)));
+        }
+      }
+
+      if (!fs.existsSync(file) || fs.statSync(file).size === 0) {
+        fs.writeFileSync(file, ndjsonLine("header", bundleHeader(cfg, intervalMin)));
+        return;
+      }
+
+      const existing = readBundle(file);
+      if (existing.intervalMinutes !== intervalMin) {
+        throw new Error(
+          `${file} was collected every ${existing.intervalMinutes} min but SAMPLE_INTERVAL_MINUTES is ${intervalMin}. ` +
+          `Use a new file or the original interval.`
+        );
+      }
+      lastTime = existing.samples.reduce<string | null>(
+        (max, s) => (max === null || sampleTimeMs(s.time) > sampleTimeMs(max) ? s.time : max),
+        null
+      );
+      staticPresent = existing.statics.length > 0;
+    },
+
+    lastSampleTime: async () => lastTime,
+
+    hasStatic: async () => staticPresent,
+
+    async writeStatic(conn, schema, tablePattern) {
+      const time = await dbNow(conn);
+      const checks = await gatherStatic(conn, schema, tablePattern);
+      fs.appendFileSync(file, checks.map((c) => ndjsonLine("static", { time, name: c.name, value: c.value })).join(""));
+      staticPresent = true;
+    },
+
+    async writeSample(_conn, time, values, transactions) {
+      fs.appendFileSync(file, [
+        ...transactions.map((t) => ndjsonLine("txn", { time, ...t })),
+        ...values.map((v) => ndjsonLine("sample", { time, metric: v.metric, value: v.value })),
+      ].join(""));
+      lastTime = time;
+    },
+  };
+}
@@ -0,0 +1,24 @@
+// Helpers and SQL fragments shared by the command and analysis modules.
+
+// Sample and check timestamps as read back from the monitoring tables.
+export const TIME_FORMAT = `'YYYY-MM-DD"T"HH24:MI:SS.FF3'`;
+
+// For DATE columns such as v$archived_log.next_time, which have no fractional seconds.
+export const DATE_TIME_FORMAT = `'YYYY-MM-DD"T"HH24:MI:SS'`;
+
+// Limits v$archived_log to the current database incarnation.
+export const CURRENT_INCARNATION = "resetlogs_change# = (SELECT resetlogs_change# FROM v$database)";
+
+// Same interpolation as Oracle's PERCENTILE_CONT, which the report used before
+// aggregation moved client-side. 0 for no values.
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = p * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
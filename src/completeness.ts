@@ -0,0 +1,92 @@
+import { SampleData, sampleTimeMs } from "./bundle";
+import { round2 } from "./common";
+
+export interface SampleGap {
+  from: string;
+  to: string;
+  hours: number;
+  missedSamples: number;
+}
+
+// One sampler run: every metric recorded at (about) the same time.
+export interface SampleRun {
+  time: string;
+  ms: number;
+  values: Map<string, number>;
+}
+
+export interface Completeness {
+  firstSample: string | null;
+  lastSample: string | null;
+  expectedRuns: number;
+  actualRuns: number;
+  coveragePct: number;
+  metricCounts: Record<string, number>;
+  gaps: SampleGap[];
+}
+
+// Inserts from one sampler run carry slightly different timestamps; anything
+// this close together is treated as a single run.
+const RUN_TOLERANCE_MS = 60000;
+
+// A gap is any stretch longer than this many intervals without a run.
+const GAP_FACTOR = 1.5;
+
+/** Groups samples into sampler runs, oldest first. */
+export function sampleRuns(data: SampleData): SampleRun[] {
+  const samples = data.samples
+    .map((s) => ({ ...s, ms: sampleTimeMs(s.time) }))
+    .sort((a, b) => a.ms - b.ms);
+
+  const runs: SampleRun[] = [];
+  for (const s of samples) {
+    let run = runs[runs.length - 1];
+    if (!run || s.ms - run.ms > RUN_TOLERANCE_MS) {
+      run = { time: s.time, ms: s.ms, values: new Map() };
+      runs.push(run);
+    }
+    run.values.set(s.metric, s.value);
+  }
+  return runs;
+}
+
+export function analyzeCompleteness(data: SampleData): Completeness {
+  const metricCounts: Record<string, number> = {};
+  for (const s of data.samples) {
+    metricCounts[s.metric] = (metricCounts[s.metric] ?? 0) + 1;
+  }
+
+  const runs = sampleRuns(data);
+
+  if (runs.length === 0) {
+    return { firstSample: null, lastSample: null, expectedRuns: 0, actualRuns: 0, coveragePct: 0, metricCounts, gaps: [] };
+  }
+
+  const intervalMs = data.intervalMinutes * 60000;
+  const gaps: SampleGap[] = [];
+  for (let i = 1; i < runs.length; i++) {
+    const diff = runs[i].ms - runs[i - 1].ms;
+    if (diff > intervalMs * GAP_FACTOR) {
+      gaps.push({
+        from: runs[i - 1].time,
+        to: runs[i].time,
+        hours: round2(diff / 3600000),
+        missedSamples: Math.round(diff / intervalMs) - 1,
+      });
+    }
+  }
+
+  const first = runs[0];
+  const last = runs[runs.length - 1];
+  const expectedRuns = Math.floor((last.ms - first.ms) / intervalMs) + 1;
+
+  return {
+    firstSample: first.time,
+    lastSample: last.time,
+    expectedRuns,
+    actualRuns: runs.length,
+    coveragePct: Math.min(100, Math.round((runs.length / expectedRuns) * 1000) / 10),
+    metricCounts,
+    gaps,
+  };
+}
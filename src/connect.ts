@@ -0,0 +1,250 @@
+import { DbConfig, withConnection } from "./db";
+import { SampleData, loadSampleData, readBundle } from "./bundle";
+import { DiagReport, buildDiagReport } from "./report";
+import { connectorProperties } from "./formats";
+import { AppliedPolicy } from "./policy";
+
+const CONNECTOR_CLASS = "io.debezium.connector.oracle.OracleConnector";
+
+// Debezium's defaults for the recommended properties a live config may leave
+// out. Properties without an entry here are reported as not set.
+const DEBEZIUM_DEFAULTS: Record<string, string> = {
+  "lob.enabled": "false",
+  "log.mining.archive.log.only.mode": "false",
+  "log.mining.buffer.type": "memory",
+  "log.mining.transaction.retention.ms": "0",
+  "heartbeat.interval.ms": "0",
+  "log.mining.batch.size.default": "20000",
+  "log.mining.batch.size.max": "100000",
+  "log.mining.query.filter.mode": "none",
+  "snapshot.mode": "initial",
+  "snapshot.fetch.size": "10000",
+  "snapshot.max.threads": "1",
+  "incremental.snapshot.chunk.size": "1024",
+  "include.schema.changes": "true",
+  "errors.max.retries": "-1",
+};
+
+export interface ConnectOptions {
+  url: string;
+  connector?: string;
+  policy: AppliedPolicy;
+}
+
+type DiffStatus = "match" | "differs" | "default" | "unset";
+
+export interface PropertyDiff {
+  key: string;
+  live: string | null;
+  recommended: string;
+  status: DiffStatus;
+}
+
+// Codes are stable so wrappers can alert on specific ones.
+export type ConnectorRiskCode =
+  | "CONNECTOR_NOT_RUNNING"
+  | "TXN_RETENTION_UNBOUNDED"
+  | "TXN_RETENTION_ABOVE_ARCHIVE"
+  | "HEARTBEAT_DISABLED"
+  | "LOB_SHORT_RETENTION";
+
+export interface ConnectorRisk {
+  code: ConnectorRiskCode;
+  message: string;
+}
+
+interface ConnectorStatus {
+  connector: { state: string; worker_id?: string; trace?: string };
+  tasks: Array<{ id: number; state: string; worker_id?: string; trace?: string }>;
+}
+
+export async function compareConnector(cfg: DbConfig, opts: ConnectOptions): Promise<void> {
+  const data = await withConnection(cfg, (conn) => loadSampleData(conn, cfg.user));
+  await runComparison(data, opts);
+}
+
+export async function compareConnectorFromBundle(file: string, opts: ConnectOptions): Promise<void> {
+  await runComparison(readBundle(file), opts);
+}
+
+async function runComparison(data: SampleData, opts: ConnectOptions): Promise<void> {
+  const r = buildDiagReport(data, opts.policy);
+  if (r.samplingDurationHours < 1) {
+    throw new Error(`Less than 1 hour of data collected (${r.samplingDurationHours.toFixed(1)} hours). Let the sampler run longer.`);
+  }
+
+  const baseUrl = opts.url.replace(/\/+$/, "");
+  const name = opts.connector ?? await findOracleConnector(baseUrl);
+  const config = await connectGet<Record<string, string>>(baseUrl, `/connectors/${encodeURIComponent(name)}/config`);
+  const status = await connectGet<ConnectorStatus>(baseUrl, `/connectors/${encodeURIComponent(name)}/status`);
+
+  const diffs = diffConfig(r, config);
+  const risks = assessRisks(r, config, status);
+
+  printComparison(name, baseUrl, status, diffs, risks);
+  if (risks.length > 0) {
+    throw new Error(`${risks.length} risky setting(s) on connector ${name}`);
+  }
+}
+
+// ── Kafka Connect REST ──────────────────────────────────────────────────────
+
+async function connectGet<T>(baseUrl: string, path: string): Promise<T> {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (process.env.CONNECT_USER) {
+    const credentials = `${process.env.CONNECT_USER}:${process.env.CONNECT_PASSWORD ?? ""}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}${path}`, { headers });
+  } catch (e: any) {
+    throw new Error(`Cannot reach Kafka Connect at ${baseUrl}: ${e.cause?.message ?? e.message}`);
+  }
+  if (!res.ok) {
+    const body = await res.text();
+    let message = body;
+    try {
+      message = JSON.parse(body).message ?? body;
+    } catch {
+      // not JSON, keep the raw body
+    }
+    throw new Error(`GET ${path} returned ${res.status}: ${message}`);
+  }
+  return (await res.json()) as T;
+}
+
+async function findOracleConnector(baseUrl: string): Promise<string> {
+  const connectors = await connectGet<Record<string, { info: { config: Record<string, string> } }>>(
+    baseUrl,
+    "/connectors?expand=info"
+  );
+  const oracle = Object.entries(connectors)
+    .filter(([, c]) => c.info?.config?.["connector.class"] === CONNECTOR_CLASS)
+    .map(([name]) => name);
+
+  if (oracle.length === 1) return oracle[0];
+  if (oracle.length === 0) throw new Error(`No Debezium Oracle connector found at ${baseUrl}`);
+  throw new Error(`${oracle.length} Debezium Oracle connectors found (${oracle.join(", ")}); pick one with --connector`);
+}
+
+// ── Comparison ──────────────────────────────────────────────────────────────
+
+function diffConfig(r: DiagReport, live: Record<string, string>): PropertyDiff[] {
+  const diffs: PropertyDiff[] = [];
+  for (const group of connectorProperties(r)) {
+    if (group.connection) continue;
+    for (const p of group.properties) {
+      const recommended = String(p.value);
+      // Engine settings live on the worker; placeholders have nothing to compare.
+      if (p.engine || recommended.includes("<")) continue;
+
+      const value = live[p.key] ?? null;
+      let status: DiffStatus;
+      if (value !== null) status = sameValue(value, recommended) ? "match" : "differs";
+      else if (p.key in DEBEZIUM_DEFAULTS) status = sameValue(DEBEZIUM_DEFAULTS[p.key], recommended) ? "default" : "differs";
+      else status = "unset";
+
+      diffs.push({ key: p.key, live: value, recommended, status });
+    }
+  }
+  return diffs;
+}
+
+function sameValue(a: string, b: string): boolean {
+  const x = a.trim();
+  const y = b.trim();
+  if (x !== "" && y !== "" && !isNaN(Number(x)) && !isNaN(Number(y))) return Number(x) === Number(y);
+  return x.toLowerCase() === y.toLowerCase();
+}
+
+function assessRisks(r: DiagReport, live: Record<string, string>, status: ConnectorStatus): ConnectorRisk[] {
+  const rec = r.recommendations;
+  const risks: ConnectorRisk[] = [];
+  const risk = (code: ConnectorRiskCode, message: string) => risks.push({ code, message });
+  const retentionMs = rec.archiveRetentionHours * 3600000;
+
+  const notRunning = [
+    ...(status.connector.state !== "RUNNING" ? [`connector ${status.connector.state}`] : []),
+    ...status.tasks.filter((t) => t.state !== "RUNNING").map((t) => `task ${t.id} ${t.state}`),
+  ];
+  if (notRunning.length > 0) {
+    risk("CONNECTOR_NOT_RUNNING", `${notRunning.join(", ")}. Offsets are not advancing while it is down; run check-offset.`);
+  }
+
+  // Older Debezium releases only have the hours variant.
+  const txnRetentionMs = live["log.mining.transaction.retention.ms"] !== undefined
+    ? Number(live["log.mining.transaction.retention.ms"])
+    : live["log.mining.transaction.retention.hours"] !== undefined
+      ? Number(live["log.mining.transaction.retention.hours"]) * 3600000
+      : 0;
+  if (txnRetentionMs <= 0) {
+    risk("TXN_RETENTION_UNBOUNDED",
+      `log.mining.transaction.retention.ms is unset or 0, so one abandoned transaction holds the low-watermark SCN ` +
+      `indefinitely and the connector needs archives older than the ${rec.archiveRetentionHours}h retention. ` +
+      `Recommended: ${rec.transactionRetentionMs}.`);
+  } else if (txnRetentionMs > retentionMs) {
+    risk("TXN_RETENTION_ABOVE_ARCHIVE",
+      `log.mining.transaction.retention.ms is ${txnRetentionMs} (${(txnRetentionMs / 3600000).toFixed(1)}h), longer than the ` +
+      `${rec.archiveRetentionHours}h archive retention: a transaction that old needs archives that are already deleted (ORA-00308). ` +
+      `Recommended: ${rec.transactionRetentionMs}.`);
+  }
+
+  const heartbeatMs = Number(live["heartbeat.interval.ms"] ?? 0);
+  if (!(heartbeatMs > 0)) {
+    risk("HEARTBEAT_DISABLED",
+      `heartbeat.interval.ms is unset or 0. Without heartbeats the offset SCN only moves when captured tables change, ` +
+      `so a quiet period can leave it behind the archive window. Recommended: ${rec.heartbeatIntervalMs}.`);
+  }
+
+  // LOB capture keeps the low-watermark back for whole LOB transactions; the
+  // report only allows it with an hour of retention to spare.
+  if ((live["lob.enabled"] ?? "false").toLowerCase() === "true" && r.archiveWindowHours.samples > 0
+    && r.archiveWindowHours.min < rec.archiveRetentionHours + 1) {
+    risk("LOB_SHORT_RETENTION",
+      `lob.enabled=true but the shortest observed archive window is ${r.archiveWindowHours.min.toFixed(1)}h, ` +
+      `under the ${rec.archiveRetentionHours + 1}h LOB capture needs. Extend retention or disable LOB capture.`);
+  }
+
+  return risks;
+}
+
+// ── Output ──────────────────────────────────────────────────────────────────
+
+function printComparison(name: string, baseUrl: string, status: ConnectorStatus, diffs: PropertyDiff[], risks: ConnectorRisk[]): void {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+  const mark: Record<DiffStatus, string> = { match: "✓", default: "✓", differs: "≠", unset: "?" };
+
+  ln(`Connector ${name} at ${baseUrl}`);
+  ln(`  State: ${status.connector.state}${status.connector.worker_id ? ` on ${status.connector.worker_id}` : ""}`);
+  for (const t of status.tasks) {
+    ln(`  Task ${t.id}: ${t.state}${t.worker_id ? ` on ${t.worker_id}` : ""}`);
+    if (t.trace) ln(`    ${t.trace.split("\n")[0]}`);
+  }
+
+  const width = Math.max(...diffs.map((d) => d.key.length));
+  ln();
+  ln(`  ${"Property".padEnd(width)}  ${"Live".padEnd(20)}  Recommended`);
+  for (const d of diffs) {
+    const live = d.live ?? (d.status === "default" || d.status === "differs" ? "(default)" : "(not set)");
+    ln(`${mark[d.status]} ${d.key.padEnd(width)}  ${truncate(live, 20).padEnd(20)}  ${d.recommended}`);
+  }
+
+  const differing = diffs.filter((d) => d.status === "differs").length;
+  ln();
+  ln(`${differing} of ${diffs.length} recommended setting(s) differ from the live config.`);
+
+  if (risks.length > 0) {
+    ln();
+    ln("⚠ Risky settings:");
+    for (const r of risks) ln(`  - [${r.code}] ${r.message}`);
+  }
+
+  console.log(lines.join("\n"));
+}
+
+function truncate(s: string, max: number): string {
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
@@ -33,6 +33,8 @@ const PRIVILEGE_MAP: Record<string, number> = {
 
 export async function withConnection<T>(cfg: DbConfig, fn: (conn: oracledb.Connection) => Promise<T>): Promise<T> {
   oracledb.outFormat = oracledb.OUT_FORMAT_OBJECT;
+  // DBZ_DIAG_STATIC.check_value is a CLOB; read it like the VARCHAR2 it used to be.
+  oracledb.fetchAsString = [oracledb.CLOB];
   const privilegeKey = process.env.ORACLE_PRIVILEGE?.toUpperCase();
   const conn = await oracledb.getConnection({
     user: cfg.user,
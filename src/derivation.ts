@@ -0,0 +1,73 @@
+import { round2 } from "./common";
+
+export type DerivedValue = number | string | boolean | null;
+
+export interface DerivationInput {
+  name: string;
+  value: DerivedValue;
+}
+
+// One branch of a max(...) or threshold; `chosen` marks the one that set the value.
+export interface DerivationTerm {
+  label: string;
+  value: DerivedValue;
+  chosen: boolean;
+}
+
+// How a recommendation was computed from the samples and the policy.
+export interface Derivation {
+  // Field in Recommendations
+  parameter: string;
+  // Debezium property or Oracle setting it maps to, if any
+  property: string | null;
+  value: DerivedValue;
+  formula: string;
+  inputs: DerivationInput[];
+  terms: DerivationTerm[];
+  reason: string;
+}
+
+/** Terms of a max(...): the first with the largest value is the one chosen. */
+export function maxTerms(terms: Array<{ label: string; value: number }>): DerivationTerm[] {
+  const max = Math.max(...terms.map((t) => t.value));
+  const winner = terms.findIndex((t) => t.value === max);
+  return terms.map((t, i) => ({ label: t.label, value: round2(t.value), chosen: i === winner }));
+}
+
+/** Terms of an if/else on a threshold. */
+export function branchTerms(condition: boolean, whenTrue: string, trueValue: DerivedValue, whenFalse: string, falseValue: DerivedValue): DerivationTerm[] {
+  return [
+    { label: whenTrue, value: trueValue, chosen: condition },
+    { label: whenFalse, value: falseValue, chosen: !condition },
+  ];
+}
+
+export function findDerivation(derivations: Derivation[], name: string): Derivation | undefined {
+  const wanted = name.toLowerCase();
+  return derivations.find((d) => d.parameter.toLowerCase() === wanted || d.property?.toLowerCase() === wanted);
+}
+
+/** Plain-text rendering shared by the explain command and the report's derivation blocks. */
+export function formatDerivation(d: Derivation): string[] {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+  const width = Math.max(...d.inputs.map((i) => i.name.length), ...d.terms.map((t) => t.label.length), 0);
+
+  ln(`${d.parameter} = ${String(d.value)}${d.property ? `   (${d.property})` : ""}`);
+  ln();
+  ln(`Formula: ${d.formula}`);
+  if (d.inputs.length > 0) {
+    ln();
+    ln("Inputs:");
+    for (const i of d.inputs) ln(`    ${i.name.padEnd(width)}  ${String(i.value)}`);
+  }
+  if (d.terms.length > 0) {
+    ln();
+    ln("Terms:");
+    for (const t of d.terms) ln(`  ${t.chosen ? "→" : " "} ${t.label.padEnd(width)}  ${String(t.value)}`);
+  }
+  ln();
+  ln(`Why: ${d.reason}`);
+
+  return lines;
+}
@@ -0,0 +1,43 @@
+import { DbConfig, withConnection } from "./db";
+import { SampleData, loadSampleData, readBundle } from "./bundle";
+import { buildDiagReport } from "./report";
+import { findDerivation, formatDerivation } from "./derivation";
+import { AppliedPolicy } from "./policy";
+
+export interface ExplainOptions {
+  policy: AppliedPolicy;
+}
+
+export async function explain(cfg: DbConfig, parameter: string | undefined, opts: ExplainOptions): Promise<void> {
+  const data = await withConnection(cfg, (conn) => loadSampleData(conn, cfg.user));
+  printExplanation(data, parameter, opts);
+}
+
+export async function explainFromBundle(file: string, parameter: string | undefined, opts: ExplainOptions): Promise<void> {
+  printExplanation(readBundle(file), parameter, opts);
+}
+
+function printExplanation(data: SampleData, parameter: string | undefined, opts: ExplainOptions): void {
+  const r = buildDiagReport(data, opts.policy);
+  if (r.samplingDurationHours < 1) {
+    throw new Error(`Less than 1 hour of data collected (${r.samplingDurationHours.toFixed(1)} hours). Let the sampler run longer.`);
+  }
+  const derivations = r.recommendations.derivations;
+
+  if (!parameter) {
+    console.log("Explainable parameters:\n");
+    for (const d of derivations) {
+      console.log(`  ${d.parameter.padEnd(24)} ${d.property ?? ""}`);
+    }
+    console.log("\nRun explain <parameter> with either name.");
+    return;
+  }
+
+  const d = findDerivation(derivations, parameter);
+  if (!d) {
+    throw new Error(`Unknown parameter "${parameter}". Known: ${derivations.map((x) => x.parameter).join(", ")}`);
+  }
+
+  if (opts.policy.source) console.log(`Policy: ${opts.policy.source}\n`);
+  for (const line of formatDerivation(d)) console.log(line);
+}
@@ -0,0 +1,375 @@
+import { DiagReport, Recommendations } from "./report";
+import { EHCACHE_HEAP_MB } from "./buffer";
+import { SnapshotPlan } from "./snapshot";
+
+export type ConfigFormat = "env" | "connect" | "server" | "strimzi";
+
+export const CONFIG_FORMATS: Record<ConfigFormat, { fileName: string; description: string }> = {
+  env: { fileName: "dbz-recommended.env", description: "DEBEZIUM_SOURCE_* container env vars" },
+  connect: { fileName: "dbz-connector.json", description: "Kafka Connect connector JSON" },
+  server: { fileName: "application.properties", description: "Debezium Server application.properties" },
+  strimzi: { fileName: "dbz-kafka-connector.yaml", description: "Strimzi KafkaConnector resource" },
+};
+
+const CONNECTOR_CLASS = "io.debezium.connector.oracle.OracleConnector";
+
+// Where ehcache spills the buffer; /debezium/data is the Debezium Server
+// image's data volume.
+const EHCACHE_DIR = "/debezium/data/ehcache";
+
+// Transaction metadata and schema changes are small next to the events.
+// XML attributes are single-quoted so the env snippet can double-quote the values.
+const EHCACHE_SMALL_CACHE = "<resources><heap unit='MB'>16</heap><disk unit='MB' persistent='true'>256</disk></resources>";
+
+export interface ConnectorProperty {
+  key: string;
+  value: string | number | boolean;
+  // Engine properties belong to the Kafka Connect worker, not the connector,
+  // so only Debezium Server (an embedded engine) takes them as source config.
+  engine?: boolean;
+}
+
+export interface PropertyGroup {
+  title: string;
+  properties: ConnectorProperty[];
+  // Per-deployment connection settings rather than recommendations; compare
+  // leaves them out.
+  connection?: boolean;
+}
+
+export function generateConfig(format: ConfigFormat, r: DiagReport): string {
+  switch (format) {
+    case "env":
+      return generateEnvSnippet(r.recommendations, r);
+    case "connect":
+      return generateConnectJson(r);
+    case "server":
+      return generateServerProperties(r);
+    case "strimzi":
+      return generateStrimziYaml(r);
+  }
+}
+
+// Real Debezium property names for everything the env snippet sets, plus the
+// connection settings the env snippet leaves to the container.
+export function connectorProperties(r: DiagReport): PropertyGroup[] {
+  const rec = r.recommendations;
+  // In a CDB the connector mines from CDB$ROOT as a common user and picks the
+  // PDB's changes out by name.
+  const cdb = r.container.cdb;
+  const groups: PropertyGroup[] = [
+    {
+      title: "Connection (fill in)",
+      connection: true,
+      properties: [
+        { key: "database.hostname", value: "<ORACLE_HOST>" },
+        { key: "database.port", value: "<ORACLE_PORT>" },
+        { key: "database.user", value: cdb ? "<C##CONNECTOR_USER>" : "<CONNECTOR_USER>" },
+        { key: "database.password", value: "<CONNECTOR_PASSWORD>" },
+        { key: "database.dbname", value: cdb ? "<CDB_SERVICE>" : r.container.dbName ?? "<ORACLE_SERVICE>" },
+        ...(cdb ? [{ key: "database.pdb.name", value: r.container.pdbName ?? "<PDB_NAME>" }] : []),
+        { key: "topic.prefix", value: "<TOPIC_PREFIX>" },
+        { key: "schema.history.internal.kafka.bootstrap.servers", value: "<KAFKA_BOOTSTRAP>" },
+        { key: "schema.history.internal.kafka.topic", value: `schema-history.${r.captureSchema.toLowerCase()}` },
+      ],
+    },
+    {
+      title: "Core",
+      properties: [
+        { key: "lob.enabled", value: rec.lobEnabled },
+        { key: "log.mining.archive.log.only.mode", value: rec.archiveLogOnlyMode },
+        { key: "log.mining.strategy", value: "online_catalog" },
+        { key: "log.mining.buffer.type", value: rec.bufferType },
+        { key: "schema.include.list", value: r.captureSchema },
+        { key: "table.include.list", value: tableIncludeList(r) },
+        ...(rec.messageKeyColumns ? [{ key: "message.key.columns", value: rec.messageKeyColumns }] : []),
+        { key: "snapshot.mode", value: rec.snapshot.mode },
+        { key: "include.schema.changes", value: false },
+      ],
+    },
+    {
+      title: "Snapshot",
+      properties: snapshotProperties(rec.snapshot),
+    },
+    ...(rec.bufferCacheMb !== null ? [{
+      title: "Transaction buffer",
+      properties: ehcacheProperties(rec.bufferCacheMb),
+    }] : []),
+    {
+      title: "Transaction handling",
+      properties: [
+        { key: "log.mining.transaction.retention.ms", value: rec.transactionRetentionMs },
+      ],
+    },
+    {
+      title: "Heartbeat",
+      properties: [
+        { key: "heartbeat.interval.ms", value: rec.heartbeatIntervalMs },
+        { key: "heartbeat.action.query", value: heartbeatActionQuery(r) },
+      ],
+    },
+    ...(r.heartbeat ? [{
+      title: "Signaling",
+      properties: [
+        { key: "signal.data.collection", value: r.heartbeat.signalDataCollection },
+      ],
+    }] : []),
+    {
+      title: "Performance",
+      properties: [
+        { key: "log.mining.batch.size.default", value: rec.batchSizeDefault },
+        { key: "log.mining.batch.size.max", value: rec.batchSizeMax },
+        ...(rec.queryFilterMode !== "none" ? [{ key: "log.mining.query.filter.mode", value: rec.queryFilterMode }] : []),
+      ],
+    },
+    {
+      title: "Error handling",
+      properties: [
+        { key: "errors.max.retries", value: rec.maxRetries },
+        { key: "errors.retry.delay.initial.ms", value: 1000 },
+        { key: "errors.retry.delay.max.ms", value: 30000 },
+      ],
+    },
+    {
+      title: "Offset & flush",
+      properties: [
+        { key: "offset.flush.interval.ms", value: 10000, engine: true },
+      ],
+    },
+  ];
+  return groups;
+}
+
+// The signaling table is read from the redo like a captured table.
+function tableIncludeList(r: DiagReport): string {
+  const captured = `${r.captureSchema}\\.${r.captureTablePattern}`;
+  return r.heartbeat ? `${captured},${r.heartbeat.signalTable.replace(".", "\\.")}` : captured;
+}
+
+function heartbeatActionQuery(r: DiagReport): string {
+  return r.heartbeat?.actionQuery ?? `UPDATE ${r.captureSchema}.<TABLE> SET <col> = <col> WHERE ROWNUM = 1`;
+}
+
+// Incremental snapshots read in chunks of the fetch size; a blocking snapshot
+// fetches that many rows per round trip.
+function snapshotProperties(plan: SnapshotPlan): ConnectorProperty[] {
+  return plan.incremental
+    ? [{ key: "incremental.snapshot.chunk.size", value: plan.fetchSize }]
+    : [
+        { key: "snapshot.fetch.size", value: plan.fetchSize },
+        { key: "snapshot.max.threads", value: plan.maxThreads },
+      ];
+}
+
+function ehcacheProperties(cacheMb: number): ConnectorProperty[] {
+  return [
+    { key: "log.mining.buffer.ehcache.global.config", value: `<persistence directory='${EHCACHE_DIR}'/>` },
+    { key: "log.mining.buffer.ehcache.transactions.config", value: EHCACHE_SMALL_CACHE },
+    { key: "log.mining.buffer.ehcache.processedtransactions.config", value: EHCACHE_SMALL_CACHE },
+    { key: "log.mining.buffer.ehcache.schemachanges.config", value: EHCACHE_SMALL_CACHE },
+    {
+      key: "log.mining.buffer.ehcache.events.config",
+      value: `<resources><heap unit='MB'>${EHCACHE_HEAP_MB}</heap><disk unit='MB' persistent='true'>${cacheMb}</disk></resources>`,
+    },
+  ];
+}
+
+function connectorName(r: DiagReport): string {
+  return `dbz-oracle-${r.captureSchema.toLowerCase().replace(/[^a-z0-9-]/g, "-")}`;
+}
+
+function generatedHeader(r: DiagReport, comment: string): string[] {
+  return [
+    `${comment} Debezium Oracle CDC — Recommended Configuration`,
+    `${comment} Generated: ${new Date().toISOString()}`,
+    `${comment} Based on ${r.samplingDurationHours.toFixed(1)} hours of diagnostic sampling`,
+    `${comment} Schema: ${r.captureSchema}, Tables: ${r.captureTablePattern}`,
+    `${comment} Connector JVM heap: -Xmx${r.recommendations.connectorHeapMb}m`,
+  ];
+}
+
+// ── Kafka Connect ───────────────────────────────────────────────────────────
+
+function generateConnectJson(r: DiagReport): string {
+  const config: Record<string, string> = { "connector.class": CONNECTOR_CLASS, "tasks.max": "1" };
+  for (const group of connectorProperties(r)) {
+    for (const p of group.properties) {
+      if (!p.engine) config[p.key] = String(p.value);
+    }
+  }
+  return JSON.stringify({ name: connectorName(r), config }, null, 2) + "\n";
+}
+
+// ── Debezium Server ─────────────────────────────────────────────────────────
+
+function generateServerProperties(r: DiagReport): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+
+  ln("# ============================================================================");
+  for (const l of generatedHeader(r, "#")) ln(l);
+  ln("# Source settings only: add your debezium.sink.* and offset storage settings.");
+  ln("# ============================================================================");
+  ln();
+  ln(`debezium.source.connector.class=${CONNECTOR_CLASS}`);
+
+  for (const group of connectorProperties(r)) {
+    ln();
+    ln(`# --- ${group.title} ---`);
+    for (const p of group.properties) {
+      ln(`debezium.source.${p.key}=${escapeProperty(String(p.value))}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeProperty(value: string): string {
+  return value.replace(/\\/g, "\\\\");
+}
+
+// ── Strimzi ─────────────────────────────────────────────────────────────────
+
+function generateStrimziYaml(r: DiagReport): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+
+  for (const l of generatedHeader(r, "#")) ln(l);
+  ln("apiVersion: kafka.strimzi.io/v1beta2");
+  ln("kind: KafkaConnector");
+  ln("metadata:");
+  ln(`  name: ${connectorName(r)}`);
+  ln("  labels:");
+  ln("    strimzi.io/cluster: <CONNECT_CLUSTER>");
+  ln("spec:");
+  ln(`  class: ${CONNECTOR_CLASS}`);
+  ln("  tasksMax: 1");
+  ln("  config:");
+
+  for (const group of connectorProperties(r)) {
+    ln(`    # --- ${group.title} ---`);
+    for (const p of group.properties) {
+      if (!p.engine) ln(`    ${p.key}: ${yamlScalar(p.value)}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function yamlScalar(value: string | number | boolean): string {
+  if (typeof value !== "string") return String(value);
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// ── Container env ───────────────────────────────────────────────────────────
+
+export function generateEnvSnippet(rec: Recommendations, r: DiagReport): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+
+  ln("# ============================================================================");
+  ln(`# Debezium Oracle CDC — Recommended Configuration`);
+  ln(`# Generated: ${new Date().toISOString()}`);
+  ln(`# Based on ${r.samplingDurationHours.toFixed(1)} hours of diagnostic sampling`);
+  ln(`# Schema: ${r.captureSchema}, Tables: ${r.captureTablePattern}`);
+  ln("# ============================================================================");
+  ln();
+
+  if (r.container.cdb) {
+    ln("# --- Multitenant ---");
+    ln("# Connect to the CDB service (not the PDB's) as a common user created in");
+    ln("# CDB$ROOT, e.g. C##DBZUSER, with its grants given CONTAINER=ALL.");
+    ln(`DEBEZIUM_SOURCE_DATABASE_PDB_NAME=${r.container.pdbName ?? "<PDB_NAME>"}`);
+    ln();
+  }
+
+  ln("# --- Core ---");
+  ln(`DEBEZIUM_SOURCE_ORACLE_LOB_ENABLED=${rec.lobEnabled}`);
+  ln(`DEBEZIUM_SOURCE_LOG_MINING_ARCHIVE_LOG_ONLY_MODE=${rec.archiveLogOnlyMode}`);
+  ln("DEBEZIUM_SOURCE_LOG_MINING_STRATEGY=online_catalog");
+  ln(`DEBEZIUM_SOURCE_LOG_MINING_BUFFER_TYPE=${rec.bufferType}`);
+  ln(`DEBEZIUM_SOURCE_SCHEMA_INCLUDE_LIST=${r.captureSchema}`);
+  const signalTable = r.heartbeat ? `,${r.heartbeat.signalTable.replace(".", "\\\\.")}` : "";
+  ln(`DEBEZIUM_SOURCE_TABLE_INCLUDE_LIST=${r.captureSchema}\\\\.${r.captureTablePattern}${signalTable}`);
+  if (rec.messageKeyColumns) {
+    ln(`DEBEZIUM_SOURCE_MESSAGE_KEY_COLUMNS="${rec.messageKeyColumns}"`);
+  }
+  ln(`DEBEZIUM_SOURCE_SNAPSHOT_MODE=${rec.snapshot.mode}`);
+  ln("DEBEZIUM_SOURCE_INCLUDE_SCHEMA_CHANGES=false");
+  ln();
+
+  ln("# --- Snapshot ---");
+  if (rec.snapshot.incremental) {
+    ln(`# A blocking snapshot (~${Math.round(rec.snapshot.durationMinutes)} min) would outlive the undo retention.`);
+    ln("# Load the tables with incremental snapshots (execute-snapshot signal) instead.");
+    if (!r.heartbeat) ln("# report --heartbeat-tables generates the signaling table they need.");
+  }
+  for (const p of snapshotProperties(rec.snapshot)) {
+    ln(`DEBEZIUM_SOURCE_${p.key.toUpperCase().replace(/\./g, "_")}=${p.value}`);
+  }
+  ln();
+
+  if (rec.bufferCacheMb !== null) {
+    ln("# --- Transaction buffer ---");
+    for (const p of ehcacheProperties(rec.bufferCacheMb)) {
+      ln(`DEBEZIUM_SOURCE_${p.key.toUpperCase().replace(/\./g, "_")}="${p.value}"`);
+    }
+    ln();
+  }
+
+  ln("# --- Memory ---");
+  ln(`JAVA_OPTS="-Xms${rec.connectorHeapMb}m -Xmx${rec.connectorHeapMb}m"`);
+  ln();
+
+  ln("# --- Transaction handling ---");
+  ln(`DEBEZIUM_SOURCE_LOG_MINING_TRANSACTION_RETENTION_MS=${rec.transactionRetentionMs}`);
+  ln();
+
+  ln("# --- Heartbeat ---");
+  ln(`DEBEZIUM_SOURCE_HEARTBEAT_INTERVAL_MS=${rec.heartbeatIntervalMs}`);
+  ln(`DEBEZIUM_SOURCE_HEARTBEAT_ACTION_QUERY="${heartbeatActionQuery(r)}"`);
+  ln();
+
+  if (r.heartbeat) {
+    ln("# --- Signaling ---");
+    ln("# Create the heartbeat and signaling tables with dbz-heartbeat-signal.sql first.");
+    ln(`DEBEZIUM_SOURCE_SIGNAL_DATA_COLLECTION=${r.heartbeat.signalDataCollection}`);
+    ln();
+  }
+
+  ln("# --- Performance ---");
+  ln(`DEBEZIUM_SOURCE_LOG_MINING_BATCH_SIZE_DEFAULT=${rec.batchSizeDefault}`);
+  ln(`DEBEZIUM_SOURCE_LOG_MINING_BATCH_SIZE_MAX=${rec.batchSizeMax}`);
+  if (rec.queryFilterMode !== "none") {
+    ln(`DEBEZIUM_SOURCE_LOG_MINING_QUERY_FILTER_MODE=${rec.queryFilterMode}`);
+  }
+  ln();
+
+  ln("# --- Error handling ---");
+  ln(`DEBEZIUM_SOURCE_ERRORS_MAX_RETRIES=${rec.maxRetries}`);
+  ln("DEBEZIUM_SOURCE_ERRORS_RETRY_DELAY_INITIAL_MS=1000");
+  ln("DEBEZIUM_SOURCE_ERRORS_RETRY_DELAY_MAX_MS=30000");
+  ln();
+
+  ln("# --- Offset & flush ---");
+  ln("DEBEZIUM_SOURCE_OFFSET_FLUSH_INTERVAL_MS=10000");
+  ln();
+
+  ln("# ============================================================================");
+  ln("# DBA actions required:");
+  ln(`# 1. Redo logs: ${rec.redoLogGroups} groups x ${rec.redoLogSizeGb}GB${r.threads.length > 1 ? " per thread" : ""}`);
+  ln(`# 2. Archive retention: ${rec.archiveRetentionHours} hours (SYSDATE-${rec.archiveRetentionHours}/24)`);
+  ln(`#    Estimated disk needed: ~${rec.archiveRetentionDiskGb}GB`);
+  if (r.standbys.length > 0) {
+    ln("#    RMAN: CONFIGURE ARCHIVELOG DELETION POLICY TO APPLIED ON ALL STANDBY");
+  }
+  if (rec.fraForecast && !rec.fraForecast.retentionFits) {
+    ln(`#    FRA has only ~${rec.fraForecast.archiveCapacityGb}GB for archives: raise DB_RECOVERY_FILE_DEST_SIZE`);
+  }
+  if (rec.archiveLagTargetSec > 0) {
+    ln(`# 3. Set ARCHIVE_LAG_TARGET=${rec.archiveLagTargetSec}`);
+  }
+  ln("# ============================================================================");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,96 @@
+import { SampleData } from "./bundle";
+import { sampleRuns } from "./completeness";
+import { round2 } from "./common";
+
+// Fast recovery area as last sampled, with the growth trend across the samples.
+export interface FraCapacity {
+  // v$recovery_file_dest.name: a path or an ASM disk group
+  destination: string | null;
+  spaceLimitGb: number;
+  spaceUsedGb: number;
+  spaceReclaimableGb: number;
+  archivedLogGb: number;
+  // Used minus reclaimable: what Oracle cannot free on its own
+  occupiedGb: number;
+  // Least-squares slope of occupiedGb
+  growthGbPerDay: number;
+  samples: number;
+}
+
+// The FRA with archived logs held at the recommended retention instead of
+// the current one.
+export interface FraForecast {
+  // Room left for archives after backups, flashback logs and other files
+  archiveCapacityGb: number;
+  projectedOccupiedGb: number;
+  projectedUsedPct: number;
+  // Projected use stays under policy.fraAlertPct
+  retentionFits: boolean;
+  // At the current growth rate; null when the FRA is not growing
+  daysToFull: number | null;
+}
+
+const DAY_MS = 86400000;
+
+/** Null when no FRA is configured or the sampler never recorded it. */
+export function analyzeFra(data: SampleData, destination: string | null): FraCapacity | null {
+  const points: Array<{ ms: number; occupiedGb: number }> = [];
+  let latest: Map<string, number> | null = null;
+
+  for (const run of sampleRuns(data)) {
+    const limit = run.values.get("fra_limit_gb") ?? 0;
+    if (limit <= 0) continue;
+    const occupied = (run.values.get("fra_used_gb") ?? 0) - (run.values.get("fra_reclaimable_gb") ?? 0);
+    points.push({ ms: run.ms, occupiedGb: occupied });
+    latest = run.values;
+  }
+  if (!latest) return null;
+
+  const spaceLimitGb = latest.get("fra_limit_gb") ?? 0;
+  const spaceUsedGb = latest.get("fra_used_gb") ?? 0;
+  const spaceReclaimableGb = latest.get("fra_reclaimable_gb") ?? 0;
+  return {
+    destination,
+    spaceLimitGb: round2(spaceLimitGb),
+    spaceUsedGb: round2(spaceUsedGb),
+    spaceReclaimableGb: round2(spaceReclaimableGb),
+    archivedLogGb: round2(((latest.get("fra_archived_log_pct") ?? 0) / 100) * spaceLimitGb),
+    occupiedGb: round2(spaceUsedGb - spaceReclaimableGb),
+    growthGbPerDay: round2(slopePerDay(points)),
+    samples: points.length,
+  };
+}
+
+export function forecastFra(fra: FraCapacity, archiveRetentionDiskGb: number, alertPct: number): FraForecast {
+  const otherGb = Math.max(0, fra.occupiedGb - fra.archivedLogGb);
+  const projectedOccupiedGb = otherGb + archiveRetentionDiskGb;
+  const headroomGb = fra.spaceLimitGb - projectedOccupiedGb;
+
+  let daysToFull: number | null = null;
+  if (headroomGb <= 0) daysToFull = 0;
+  else if (fra.growthGbPerDay > 0) daysToFull = round2(headroomGb / fra.growthGbPerDay);
+
+  return {
+    archiveCapacityGb: round2(Math.max(0, fra.spaceLimitGb - otherGb)),
+    projectedOccupiedGb: round2(projectedOccupiedGb),
+    projectedUsedPct: round2((projectedOccupiedGb / fra.spaceLimitGb) * 100),
+    retentionFits: projectedOccupiedGb <= fra.spaceLimitGb * (alertPct / 100),
+    daysToFull,
+  };
+}
+
+function slopePerDay(points: Array<{ ms: number; occupiedGb: number }>): number {
+  if (points.length < 2) return 0;
+  const t0 = points[0].ms;
+  const xs = points.map((p) => (p.ms - t0) / DAY_MS);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = points.reduce((a, p) => a + p.occupiedGb, 0) / points.length;
+
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < points.length; i++) {
+    num += (xs[i] - meanX) * (points[i].occupiedGb - meanY);
+    den += (xs[i] - meanX) ** 2;
+  }
+  return den > 0 ? num / den : 0;
+}
@@ -0,0 +1,52 @@
+// Dedicated tables for the connector's heartbeat.action.query and for source
+// signals (incremental snapshots), created in the capture schema.
+export const HEARTBEAT_TABLE = "DEBEZIUM_HEARTBEAT";
+export const SIGNAL_TABLE = "DEBEZIUM_SIGNAL";
+
+export interface HeartbeatTables {
+  heartbeatTable: string;
+  signalTable: string;
+  // heartbeat.action.query
+  actionQuery: string;
+  // signal.data.collection: <database>.<schema>.<table>, where the database is
+  // database.pdb.name in a CDB and database.dbname otherwise
+  signalDataCollection: string;
+}
+
+export function heartbeatTables(schema: string, catalog: string): HeartbeatTables {
+  return {
+    heartbeatTable: `${schema}.${HEARTBEAT_TABLE}`,
+    signalTable: `${schema}.${SIGNAL_TABLE}`,
+    actionQuery: `UPDATE ${schema}.${HEARTBEAT_TABLE} SET ts = SYSTIMESTAMP WHERE id = 1`,
+    signalDataCollection: `${catalog}.${schema}.${SIGNAL_TABLE}`,
+  };
+}
+
+export interface HeartbeatStatement {
+  comment: string;
+  sql: string;
+}
+
+/**
+ * DDL, seed row, supplemental logging and grants for both tables, one
+ * statement each without the terminating semicolon. The heartbeat table is
+ * not captured: the update only has to write redo. The signal table is read
+ * from the redo stream, so it needs full supplemental logging and has to be
+ * in table.include.list.
+ */
+export function heartbeatTableStatements(schema: string, connectorUser: string): HeartbeatStatement[] {
+  const heartbeat = `${schema}.${HEARTBEAT_TABLE}`;
+  const signal = `${schema}.${SIGNAL_TABLE}`;
+  return [
+    { comment: "Heartbeat table, one row", sql: `CREATE TABLE ${heartbeat} (id NUMBER(1) PRIMARY KEY, ts TIMESTAMP NOT NULL)` },
+    { comment: "Heartbeat row the action query updates", sql: `INSERT INTO ${heartbeat} (id, ts) VALUES (1, SYSTIMESTAMP)` },
+    { comment: "Heartbeat grants", sql: `GRANT SELECT, UPDATE ON ${heartbeat} TO ${connectorUser}` },
+    {
+      comment: "Signaling table",
+      sql: `CREATE TABLE ${signal} (id VARCHAR2(42) PRIMARY KEY, type VARCHAR2(32) NOT NULL, data VARCHAR2(2048))`,
+    },
+    { comment: "Signals are read from the redo, with every column", sql: `ALTER TABLE ${signal} ADD SUPPLEMENTAL LOG DATA (ALL) COLUMNS` },
+    // The connector writes its own snapshot window markers into the table.
+    { comment: "Signaling grants", sql: `GRANT SELECT, INSERT ON ${signal} TO ${connectorUser}` },
+  ];
+}
@@ -1,9 +1,20 @@
 import { Command } from "commander";
 import * as dotenv from "dotenv";
 import { getDbConfig } from "./db";
-import { setup } from "./setup";
-import { report } from "./report";
-import { teardown } from "./teardown";
+import { emitSetupSql, setup } from "./setup";
+import { report, reportFromBundle } from "./report";
+import { CONFIG_FORMATS, ConfigFormat } from "./formats";
+import { emitTeardownSql, teardown } from "./teardown";
+import { exportBundle, BundleFormat } from "./bundle";
+import { collect } from "./collect";
+import { status, statusFromBundle } from "./status";
+import { preflight } from "./preflight";
+import { defaultPolicy, loadPolicy } from "./policy";
+import { explain, explainFromBundle } from "./explain";
+import { simulate, simulateFromBundle } from "./simulate";
+import { checkOffset } from "./offset";
+import { compareConnector, compareConnectorFromBundle } from "./connect";
+import { benchmark } from "./benchmark";
 
 dotenv.config();
 
@@ -17,37 +28,271 @@ program
 program
   .command("setup")
   .description("Create monitoring tables and start sampling job. Run once, then wait 24h+.")
-  .action(async () => {
+  .option("--with-heartbeat", "Also create the connector's heartbeat and signaling tables in the capture schema")
+  .option("--connector-user <name>", "Database user the Debezium connector will log in as (grantee with --with-heartbeat)")
+  .option("--emit-sql", "Write the DDL, grants and scheduler calls to a SQL*Plus script instead of running them")
+  .option("-o, --out <file>", "Script file for --emit-sql", "dbz-diag-setup.sql")
+  .action(async (opts: { withHeartbeat?: boolean; connectorUser?: string; emitSql?: boolean; out: string }) => {
     try {
-      await setup(getDbConfig());
+      const setupOpts = { heartbeatTables: opts.withHeartbeat ?? false, connectorUser: opts.connectorUser };
+      if (opts.emitSql) {
+        await emitSetupSql(opts.out, setupOpts);
+      } else {
+        await setup(getDbConfig(), setupOpts);
+      }
     } catch (e: any) {
       console.error(`\n✗ Setup failed: ${e.message}`);
       process.exit(1);
     }
   });
 
+program
+  .command("collect")
+  .description("Sample metrics from this process instead of a DBMS_SCHEDULER job. Resumes where it left off.")
+  .option("--target <target>", "Where to write samples: file or table", "file")
+  .option("-o, --out <file>", "Sample file for --target file (NDJSON bundle)", "dbz-diag-samples.ndjson")
+  .option("--count <n>", "Stop after this many samples instead of running until interrupted")
+  .action(async (opts: { target: string; out: string; count?: string }) => {
+    try {
+      if (opts.target !== "file" && opts.target !== "table") {
+        throw new Error(`Unknown collect target: ${opts.target}`);
+      }
+      await collect(getDbConfig(), {
+        target: opts.target,
+        out: opts.out,
+        count: positiveIntegerOption("--count", opts.count),
+      });
+    } catch (e: any) {
+      console.error(`\n✗ Collect failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command("report")
-  .description("Generate diagnostic report and recommended .env from collected samples.")
-  .action(async () => {
+  .description("Generate diagnostic report and recommended connector config from collected samples.")
+  .option("--from <bundle>", "Read samples from an exported bundle or collect file instead of connecting to Oracle")
+  .option("--format <format>", `Connector config format: ${Object.keys(CONFIG_FORMATS).join(", ")}`, "env")
+  .option("--policy <file>", "JSON or YAML file overriding the recommendation thresholds")
+  .option("--heartbeat-tables", "Use dedicated heartbeat and signaling tables in the config and write their DDL")
+  .action(async (opts: { from?: string; format: string; policy?: string; heartbeatTables?: boolean }) => {
     try {
-      await report(getDbConfig());
+      if (!Object.hasOwn(CONFIG_FORMATS, opts.format)) {
+        throw new Error(`Unknown config format: ${opts.format}`);
+      }
+      const reportOpts = {
+        format: opts.format as ConfigFormat,
+        policy: opts.policy ? loadPolicy(opts.policy) : defaultPolicy(),
+        heartbeatTables: opts.heartbeatTables ?? false,
+      };
+      if (opts.from) {
+        await reportFromBundle(opts.from, reportOpts);
+      } else {
+        await report(getDbConfig(), reportOpts);
+      }
     } catch (e: any) {
       console.error(`\n✗ Report failed: ${e.message}`);
       process.exit(1);
     }
   });
 
+program
+  .command("explain [parameter]")
+  .description("Show how a recommendation was derived: inputs, formula and which term won. Lists parameters when none is given.")
+  .option("--from <bundle>", "Read samples from an exported bundle or collect file instead of connecting to Oracle")
+  .option("--policy <file>", "JSON or YAML file overriding the recommendation thresholds")
+  .action(async (parameter: string | undefined, opts: { from?: string; policy?: string }) => {
+    try {
+      const explainOpts = { policy: opts.policy ? loadPolicy(opts.policy) : defaultPolicy() };
+      if (opts.from) {
+        await explainFromBundle(opts.from, parameter, explainOpts);
+      } else {
+        await explain(getDbConfig(), parameter, explainOpts);
+      }
+    } catch (e: any) {
+      console.error(`\n✗ Explain failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("simulate")
+  .description("Replay the collected samples against proposed redo, retention, ARCHIVE_LAG_TARGET and FRA settings.")
+  .option("--from <bundle>", "Read samples from an exported bundle or collect file instead of connecting to Oracle")
+  .option("--redo-size-gb <gb>", "Redo log member size (default: recommended)")
+  .option("--redo-groups <n>", "Redo log groups per thread (default: recommended)")
+  .option("--retention-hours <hours>", "Archive retention (default: recommended)")
+  .option("--archive-lag-target <seconds>", "ARCHIVE_LAG_TARGET, 0 for off (default: recommended or current)")
+  .option("--fra-gb <gb>", "FRA size (default: current db_recovery_file_dest_size)")
+  .option("--policy <file>", "JSON or YAML file overriding the recommendation thresholds")
+  .option("-o, --out <file>", "CSV timeline of the simulated intervals", "dbz-simulation.csv")
+  .action(async (opts: {
+    from?: string;
+    redoSizeGb?: string;
+    redoGroups?: string;
+    retentionHours?: string;
+    archiveLagTarget?: string;
+    fraGb?: string;
+    policy?: string;
+    out: string;
+  }) => {
+    try {
+      const simulateOpts = {
+        policy: opts.policy ? loadPolicy(opts.policy) : defaultPolicy(),
+        settings: {
+          redoLogSizeGb: numberOption("--redo-size-gb", opts.redoSizeGb),
+          redoLogGroups: numberOption("--redo-groups", opts.redoGroups),
+          archiveRetentionHours: numberOption("--retention-hours", opts.retentionHours),
+          archiveLagTargetSec: numberOption("--archive-lag-target", opts.archiveLagTarget),
+          fraSizeGb: numberOption("--fra-gb", opts.fraGb),
+        },
+        out: opts.out,
+      };
+      if (opts.from) {
+        await simulateFromBundle(opts.from, simulateOpts);
+      } else {
+        await simulate(getDbConfig(), simulateOpts);
+      }
+    } catch (e: any) {
+      console.error(`\n✗ Simulate failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("check-offset")
+  .description("Check whether the archived logs still cover the connector's committed SCN, and for how long.")
+  .option("--scn <scn>", "Committed SCN")
+  .option("--offsets <file>", "Kafka Connect offsets export (REST response or offsets topic dump) to read the SCN from")
+  .action(async (opts: { scn?: string; offsets?: string }) => {
+    try {
+      if ((opts.scn === undefined) === (opts.offsets === undefined)) {
+        throw new Error("Pass either --scn or --offsets");
+      }
+      await checkOffset(getDbConfig(), { scn: opts.scn, offsets: opts.offsets });
+    } catch (e: any) {
+      console.error(`\n✗ Check-offset failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("compare")
+  .description("Diff a running connector's config (Kafka Connect REST) against the recommendations and flag risky settings.")
+  .option("--connect-url <url>", "Kafka Connect REST endpoint", process.env.CONNECT_URL ?? "http://localhost:8083")
+  .option("--connector <name>", "Connector name (default: the only Debezium Oracle connector on the worker)")
+  .option("--from <bundle>", "Read samples from an exported bundle or collect file instead of connecting to Oracle")
+  .option("--policy <file>", "JSON or YAML file overriding the recommendation thresholds")
+  .action(async (opts: { connectUrl: string; connector?: string; from?: string; policy?: string }) => {
+    try {
+      const compareOpts = {
+        url: opts.connectUrl,
+        connector: opts.connector,
+        policy: opts.policy ? loadPolicy(opts.policy) : defaultPolicy(),
+      };
+      if (opts.from) {
+        await compareConnectorFromBundle(opts.from, compareOpts);
+      } else {
+        await compareConnector(getDbConfig(), compareOpts);
+      }
+    } catch (e: any) {
+      console.error(`\n✗ Compare failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("benchmark")
+  .description("Mine recent archived logs with LogMiner, measure throughput and recommend batch size and sleep settings.")
+  .option("--logs <n>", "Number of most recent archived logs to mine", "1")
+  .action(async (opts: { logs: string }) => {
+    try {
+      await benchmark(getDbConfig(), { logs: positiveIntegerOption("--logs", opts.logs) });
+    } catch (e: any) {
+      console.error(`\n✗ Benchmark failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("export")
+  .description("Export collected samples and static checks to a bundle for offline reporting.")
+  .option("-o, --out <file>", "Bundle file to write", "dbz-diag-bundle.json")
+  .option("--format <format>", "Bundle format: json or ndjson (default: from file extension)")
+  .action(async (opts: { out: string; format?: string }) => {
+    try {
+      if (opts.format && opts.format !== "json" && opts.format !== "ndjson") {
+        throw new Error(`Unknown bundle format: ${opts.format}`);
+      }
+      await exportBundle(getDbConfig(), opts.out, opts.format as BundleFormat | undefined);
+    } catch (e: any) {
+      console.error(`\n✗ Export failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("status")
+  .description("Show sampler job health, recent failures and gaps in the collected samples.")
+  .option("--from <bundle>", "Check an exported bundle or collect file instead of connecting to Oracle")
+  .action(async (opts: { from?: string }) => {
+    try {
+      if (opts.from) {
+        await statusFromBundle(opts.from);
+      } else {
+        await status(getDbConfig());
+      }
+    } catch (e: any) {
+      console.error(`\n✗ Status failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("preflight")
+  .description("Audit the Debezium connector user's privileges and write a GRANT script for anything missing.")
+  .requiredOption("--connector-user <name>", "Database user the Debezium connector will log in as")
+  .action(async (opts: { connectorUser: string }) => {
+    try {
+      await preflight(getDbConfig(), opts.connectorUser);
+    } catch (e: any) {
+      console.error(`\n✗ Preflight failed: ${e.message}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command("teardown")
   .description("Remove all diagnostic tables and scheduler jobs.")
-  .action(async () => {
+  .option("--emit-sql", "Write the DROP statements to a SQL*Plus script instead of running them")
+  .option("-o, --out <file>", "Script file for --emit-sql", "dbz-diag-teardown.sql")
+  .action(async (opts: { emitSql?: boolean; out: string }) => {
     try {
-      await teardown(getDbConfig());
+      if (opts.emitSql) {
+        await emitTeardownSql(opts.out);
+      } else {
+        await teardown(getDbConfig());
+      }
     } catch (e: any) {
       console.error(`\n✗ Teardown failed: ${e.message}`);
       process.exit(1);
     }
   });
 
+function numberOption(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n)) throw new Error(`${flag} must be a number, got "${value}"`);
+  return n;
+}
+
+function positiveIntegerOption(flag: string, value: string): number;
+function positiveIntegerOption(flag: string, value: string | undefined): number | undefined;
+function positiveIntegerOption(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isInteger(n) || n < 1) throw new Error(`${flag} must be a whole number of at least 1, got "${value}"`);
+  return n;
+}
+
 program.parse();
@@ -0,0 +1,32 @@
+import { DiagReport, DiagWarning, Recommendations } from "./report";
+
+// Bump on any change that removes, renames or retypes a field. Adding fields or
+// warning codes keeps the version. The layout is documented in REPORT_SCHEMA.md.
+export const REPORT_SCHEMA = "dbz-diag-report";
+export const REPORT_SCHEMA_VERSION = 1;
+
+export interface JsonReport {
+  schema: typeof REPORT_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  report: Omit<DiagReport, "recommendations">;
+  recommendations: Omit<Recommendations, "warnings">;
+  warnings: DiagWarning[];
+}
+
+export function buildJsonReport(r: DiagReport): JsonReport {
+  const { recommendations, ...report } = r;
+  const { warnings, ...rest } = recommendations;
+  return {
+    schema: REPORT_SCHEMA,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    report,
+    recommendations: rest,
+    warnings,
+  };
+}
+
+export function generateJson(r: DiagReport): string {
+  return JSON.stringify(buildJsonReport(r), null, 2);
+}
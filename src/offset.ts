@@ -0,0 +1,281 @@
+import oracledb from "oracledb";
+import * as fs from "fs";
+import { DbConfig, withConnection, queryRows } from "./db";
+import { loadSampleData, sampleTimeMs } from "./bundle";
+import { buildDiagReport } from "./report";
+import { defaultPolicy } from "./policy";
+import { CURRENT_INCARNATION, DATE_TIME_FORMAT } from "./common";
+
+export interface OffsetCheckOptions {
+  scn?: string;
+  offsets?: string;
+}
+
+// A committed position read from the connector's offsets. Debezium restarts
+// mining from `scn`, so that is the one the archives have to cover.
+export interface ConnectorOffset {
+  // Source partition (the connector's topic prefix), or "--scn"
+  partition: string;
+  scn: number;
+}
+
+// Where one redo thread stands relative to an offset.
+interface ThreadCoverage {
+  thread: number;
+  // Archive holding the offset SCN; null when it is still in the online logs
+  neededSequence: number | null;
+  neededCompletedAt: string | null;
+  // Oldest archive from which every sequence up to the online logs is on disk
+  oldestSequence: number | null;
+  oldestScn: number;
+  oldestCompletedAt: string | null;
+  covered: boolean;
+}
+
+interface ArchiveRow {
+  SEQUENCE: number;
+  FIRST_SCN: number;
+  COMPLETED: string;
+}
+
+export async function checkOffset(cfg: DbConfig, opts: OffsetCheckOptions): Promise<void> {
+  const offsets = opts.scn !== undefined ? [{ partition: "--scn", scn: parseScn(opts.scn, "--scn") }] : readOffsets(opts.offsets!);
+
+  await withConnection(cfg, async (conn) => {
+    const db = await queryRows<{ NOW: string; CURRENT_SCN: number; RESETLOGS_SCN: number }>(conn, `
+      SELECT TO_CHAR(SYSDATE, ${DATE_TIME_FORMAT}) AS NOW, current_scn AS CURRENT_SCN, resetlogs_change# AS RESETLOGS_SCN
+      FROM v$database
+    `);
+    const { NOW: now, CURRENT_SCN: currentScn, RESETLOGS_SCN: resetlogsScn } = db[0];
+    const sampledWindowHours = await getSampledWindowHours(conn, cfg.user);
+
+    console.log(`Current SCN: ${currentScn} at ${now}`);
+    if (sampledWindowHours !== null) console.log(`Shortest archive window in the samples: ${sampledWindowHours.toFixed(1)} h`);
+
+    let uncovered = 0;
+    for (const offset of offsets) {
+      console.log(`\nOffset ${offset.partition}: SCN ${offset.scn}`);
+      if (offset.scn > currentScn) {
+        console.log("  ✗ SCN is ahead of the database. Wrong database, or the offsets belong to another incarnation.");
+        uncovered++;
+        continue;
+      }
+      if (offset.scn < resetlogsScn) {
+        console.log(`  ✗ SCN predates the current incarnation (RESETLOGS at SCN ${resetlogsScn}). A new snapshot is required.`);
+        uncovered++;
+        continue;
+      }
+
+      const threads = await getThreadCoverage(conn, offset.scn);
+      if (!printCoverage(threads, now, sampledWindowHours)) uncovered++;
+    }
+
+    if (uncovered > 0) {
+      throw new Error(`${uncovered} of ${offsets.length} offset(s) are no longer covered by archived logs`);
+    }
+  });
+}
+
+// ── Offsets ─────────────────────────────────────────────────────────────────
+
+/**
+ * Reads committed SCNs from a Kafka Connect offsets export: the REST
+ * response of GET /connectors/<name>/offsets, a single offset object, or one
+ * JSON value per line as dumped from the offsets topic (optionally prefixed
+ * by the record key and a tab). Later records for a partition win.
+ */
+export function readOffsets(file: string): ConnectorOffset[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (e: any) {
+    throw new Error(`Cannot read offsets file ${file}: ${e.message}`);
+  }
+
+  const found = new Map<string, number>();
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    doc = undefined;
+  }
+
+  if (doc !== undefined) {
+    collectOffsets(doc, "default", found);
+  } else {
+    text.split("\n").forEach((line, i) => {
+      if (line.trim() === "") return;
+      const tab = line.indexOf("\t");
+      const key = tab >= 0 ? line.slice(0, tab) : null;
+      const value = tab >= 0 ? line.slice(tab + 1) : line;
+      let record: any;
+      try {
+        record = JSON.parse(value);
+      } catch {
+        throw new Error(`${file}:${i + 1}: not a JSON offset record`);
+      }
+      collectOffsets(record, key ? partitionLabel(key) : "default", found);
+    });
+  }
+
+  if (found.size === 0) throw new Error(`No Debezium "scn" offsets found in ${file}`);
+  return [...found.entries()].map(([partition, scn]) => ({ partition, scn }));
+}
+
+function collectOffsets(node: any, partition: string, found: Map<string, number>): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectOffsets(item, partition, found);
+    return;
+  }
+  if (node === null || typeof node !== "object") return;
+
+  if ("partition" in node && "offset" in node) {
+    collectOffsets(node.offset, partitionLabel(node.partition), found);
+  } else if ("scn" in node) {
+    // A tombstone or a snapshot that never reached streaming has no SCN yet.
+    if (node.scn !== null && node.scn !== undefined) found.set(partition, parseScn(String(node.scn), `partition ${partition}`));
+  } else if ("offsets" in node) {
+    collectOffsets(node.offsets, partition, found);
+  }
+}
+
+// Debezium partitions look like {"server": "<topic.prefix>"}; offsets topic
+// keys like ["<connector>", {"server": "<topic.prefix>"}].
+function partitionLabel(partition: any): string {
+  let value = partition;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  if (Array.isArray(value)) value = value[value.length - 1];
+  if (value && typeof value === "object" && typeof value.server === "string") return value.server;
+  return JSON.stringify(value);
+}
+
+function parseScn(value: string, label: string): number {
+  const scn = Number(value.trim());
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(scn)) {
+    throw new Error(`Invalid SCN for ${label}: "${value}"`);
+  }
+  return scn;
+}
+
+// ── Archive coverage ────────────────────────────────────────────────────────
+
+async function getThreadCoverage(conn: oracledb.Connection, scn: number): Promise<ThreadCoverage[]> {
+  // Groups added but not yet written to, e.g. after a redo resize, are UNUSED
+  // with sequence# and first_change# 0.
+  const threads = await queryRows<{ THREAD: number; ONLINE_SEQ: number; ONLINE_SCN: number }>(conn, `
+    SELECT t.thread# AS THREAD, MIN(l.sequence#) AS ONLINE_SEQ, MIN(l.first_change#) AS ONLINE_SCN
+    FROM v$thread t
+    JOIN v$log l ON l.thread# = t.thread#
+    WHERE t.enabled <> 'DISABLED'
+      AND l.status <> 'UNUSED'
+    GROUP BY t.thread#
+    ORDER BY t.thread#
+  `);
+
+  const coverage: ThreadCoverage[] = [];
+  for (const t of threads) {
+    // One row per sequence: each archive destination has its own row.
+    const archives = await queryRows<ArchiveRow>(conn, `
+      SELECT sequence# AS SEQUENCE, MIN(first_change#) AS FIRST_SCN,
+             TO_CHAR(MIN(next_time), ${DATE_TIME_FORMAT}) AS COMPLETED
+      FROM v$archived_log
+      WHERE thread# = :thread
+        AND deleted = 'NO'
+        AND name IS NOT NULL
+        AND standby_dest = 'NO'
+        AND ${CURRENT_INCARNATION}
+        AND sequence# < :onlineSeq
+      GROUP BY sequence#
+      ORDER BY sequence# DESC
+    `, { thread: t.THREAD, onlineSeq: t.ONLINE_SEQ });
+
+    // Walk back from the online logs until the first missing sequence.
+    let oldest: ArchiveRow | null = null;
+    let expected = t.ONLINE_SEQ - 1;
+    for (const a of archives) {
+      if (a.SEQUENCE !== expected) break;
+      oldest = a;
+      expected--;
+    }
+
+    const needed = scn >= t.ONLINE_SCN ? [] : await queryRows<{ SEQUENCE: number; COMPLETED: string }>(conn, `
+      SELECT MIN(sequence#) AS SEQUENCE, TO_CHAR(MIN(next_time), ${DATE_TIME_FORMAT}) AS COMPLETED
+      FROM v$archived_log
+      WHERE thread# = :thread
+        AND first_change# <= :scn AND next_change# > :scn
+        AND ${CURRENT_INCARNATION}
+    `, { thread: t.THREAD, scn });
+
+    const oldestScn = oldest ? oldest.FIRST_SCN : t.ONLINE_SCN;
+    coverage.push({
+      thread: t.THREAD,
+      neededSequence: needed[0]?.SEQUENCE ?? null,
+      neededCompletedAt: needed[0]?.COMPLETED ?? null,
+      oldestSequence: oldest?.SEQUENCE ?? null,
+      oldestScn,
+      oldestCompletedAt: oldest?.COMPLETED ?? null,
+      covered: scn >= oldestScn,
+    });
+  }
+  return coverage;
+}
+
+// The report's archive window statistics, when the diagnostic user has been
+// sampling. Null when there are no samples to go by.
+async function getSampledWindowHours(conn: oracledb.Connection, user: string): Promise<number | null> {
+  try {
+    const r = buildDiagReport(await loadSampleData(conn, user), defaultPolicy());
+    return r.archiveWindowHours.samples > 0 ? r.archiveWindowHours.min : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Prints one offset's coverage and the time left before its oldest needed
+ * archive is deleted. Archives are assumed to keep being deleted at the age
+ * the oldest one on disk has reached now (or the shortest sampled window, if
+ * shorter), with the connector stalled at this SCN. Returns false when the
+ * offset is already past recovery.
+ */
+function printCoverage(threads: ThreadCoverage[], now: string, sampledWindowHours: number | null): boolean {
+  const nowMs = sampleTimeMs(now);
+  const hoursAgo = (t: string) => (nowMs - sampleTimeMs(t)) / 3600000;
+  let remaining = Infinity;
+
+  for (const t of threads) {
+    const needed = t.neededSequence !== null
+      ? `sequence ${t.neededSequence} (completed ${t.neededCompletedAt}, ${hoursAgo(t.neededCompletedAt!).toFixed(1)} h ago)`
+      : "online redo logs";
+    const oldest = t.oldestSequence !== null
+      ? `sequence ${t.oldestSequence} (${hoursAgo(t.oldestCompletedAt!).toFixed(1)} h window)`
+      : "none archived";
+    console.log(`  ${t.covered ? "✓" : "✗"} Thread ${t.thread}: needs ${needed}; oldest on disk: ${oldest}`);
+
+    if (!t.covered) continue;
+    let windowHours = t.oldestCompletedAt ? hoursAgo(t.oldestCompletedAt) : Infinity;
+    if (sampledWindowHours !== null) windowHours = Math.min(windowHours, sampledWindowHours);
+    const ageHours = t.neededCompletedAt ? hoursAgo(t.neededCompletedAt) : 0;
+    remaining = Math.min(remaining, windowHours - ageHours);
+  }
+
+  if (threads.some((t) => !t.covered)) {
+    console.log("  ✗ NOT COVERED: archives LogMiner needs to resume from this SCN were deleted. The connector will fail " +
+      "with ORA-00308; restore the archives from backup or take a new snapshot.");
+    return false;
+  }
+  if (remaining === Infinity) {
+    console.log("  ✓ Covered. No archive deletion seen yet, so no deadline can be estimated.");
+  } else if (remaining <= 0) {
+    console.log("  ⚠ Covered, but the oldest needed archive is already older than the deletion window: the next cleanup run removes it.");
+  } else {
+    console.log(`  ✓ Covered. ~${remaining.toFixed(1)} h until the oldest needed archive is deleted (ORA-00308 if the connector has not moved on).`);
+  }
+  return true;
+}
@@ -0,0 +1,153 @@
+import * as fs from "fs";
+import { parse as parseYaml } from "yaml";
+
+// Thresholds the recommendation engine works from. The defaults are the values
+// the engine has always used; a policy file overrides any subset of them.
+export interface Policy {
+  targetSwitchesPerHour: number;
+  maxSwitchesPerHour: number;
+  minRedoLogSizeGb: number;
+  minRedoLogGroups: number;
+  archiveWriteGbPerSec: number;
+  logMinerOverheadMin: number;
+  safetyBufferMin: number;
+  minArchiveRetentionMin: number;
+  txnRetentionMultiplier: number;
+  minTxnRetentionMs: number;
+  smallCaptureRatio: number;
+  regexFilterCaptureRatio: number;
+  quietSwitchesPerHour: number;
+  archiveLagTargetSec: number;
+  largeArchiveFileGb: number;
+  maxRetries: number;
+  largeArchiveMaxRetries: number;
+  fraAlertPct: number;
+  fraEmergencyRetentionHours: number;
+  memoryBufferMaxMb: number;
+  connectorBaseHeapMb: number;
+  bufferHeapMultiplier: number;
+  snapshotRowsPerSec: number;
+  snapshotMbPerSec: number;
+  snapshotMaxThreads: number;
+}
+
+export interface AppliedPolicy {
+  // Policy file the values came from, null when only defaults apply
+  source: string | null;
+  values: Policy;
+  overridden: Array<keyof Policy>;
+}
+
+interface PolicyRule {
+  description: string;
+  min: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export const DEFAULT_POLICY: Policy = {
+  targetSwitchesPerHour: 4,
+  maxSwitchesPerHour: 6,
+  minRedoLogSizeGb: 2,
+  minRedoLogGroups: 4,
+  archiveWriteGbPerSec: 0.5,
+  logMinerOverheadMin: 15,
+  safetyBufferMin: 60,
+  minArchiveRetentionMin: 120,
+  txnRetentionMultiplier: 2,
+  minTxnRetentionMs: 300000,
+  smallCaptureRatio: 0.3,
+  regexFilterCaptureRatio: 0.5,
+  quietSwitchesPerHour: 2,
+  archiveLagTargetSec: 1800,
+  largeArchiveFileGb: 5,
+  maxRetries: 10,
+  largeArchiveMaxRetries: 30,
+  fraAlertPct: 85,
+  fraEmergencyRetentionHours: 2,
+  memoryBufferMaxMb: 512,
+  connectorBaseHeapMb: 1024,
+  bufferHeapMultiplier: 3,
+  snapshotRowsPerSec: 10000,
+  snapshotMbPerSec: 20,
+  snapshotMaxThreads: 4,
+};
+
+export const POLICY_RULES: Record<keyof Policy, PolicyRule> = {
+  targetSwitchesPerHour: { description: "Log switches per hour the redo size is chosen for", min: 1 },
+  maxSwitchesPerHour: { description: "Peak switches per hour above which larger redo logs are recommended", min: 1 },
+  minRedoLogSizeGb: { description: "Smallest redo log size recommended (GB)", min: 0.05 },
+  minRedoLogGroups: { description: "Fewest redo log groups per thread", min: 2, integer: true },
+  archiveWriteGbPerSec: { description: "Archive write speed used to estimate archiving delay", min: 0.001 },
+  logMinerOverheadMin: { description: "Minutes a LogMiner session may keep referencing a file", min: 0 },
+  safetyBufferMin: { description: "Safety buffer added to every retention term (minutes)", min: 0 },
+  minArchiveRetentionMin: { description: "Floor for the archive retention (minutes)", min: 0 },
+  txnRetentionMultiplier: { description: "Multiple of the p95 transaction age kept by transaction.retention.ms", min: 1 },
+  minTxnRetentionMs: { description: "Floor for transaction.retention.ms", min: 0, integer: true },
+  smallCaptureRatio: { description: "Capture ratio below which smaller LogMiner batches are used", min: 0, max: 1 },
+  regexFilterCaptureRatio: { description: "Capture ratio below which query.filter.mode=regex is recommended", min: 0, max: 1 },
+  quietSwitchesPerHour: { description: "Minimum switches per hour below which ARCHIVE_LAG_TARGET is recommended", min: 0 },
+  archiveLagTargetSec: { description: "ARCHIVE_LAG_TARGET recommended for quiet databases (seconds)", min: 60, integer: true },
+  largeArchiveFileGb: { description: "Average archive file size above which more retries are allowed (GB)", min: 0 },
+  maxRetries: { description: "errors.max.retries for ordinary archive sizes", min: 0, integer: true },
+  largeArchiveMaxRetries: { description: "errors.max.retries for large archive files", min: 0, integer: true },
+  fraAlertPct: { description: "FRA use (%) above which the cleanup script falls back to the emergency retention", min: 1, max: 100 },
+  fraEmergencyRetentionHours: { description: "Archive retention the cleanup script uses when the FRA is above fraAlertPct (hours)", min: 1, integer: true },
+  memoryBufferMaxMb: { description: "Largest estimated transaction buffer kept on the heap (MB); above it ehcache is recommended", min: 1 },
+  connectorBaseHeapMb: { description: "Connector JVM heap before the transaction buffer (MB)", min: 128, integer: true },
+  bufferHeapMultiplier: { description: "Heap MB per MB of buffered events (object overhead and GC headroom)", min: 1 },
+  snapshotRowsPerSec: { description: "Rows per second one snapshot thread reads and publishes", min: 1 },
+  snapshotMbPerSec: { description: "MB per second one snapshot thread reads and publishes", min: 0.1 },
+  snapshotMaxThreads: { description: "Most snapshot.max.threads recommended", min: 1, integer: true },
+};
+
+export function defaultPolicy(): AppliedPolicy {
+  return { source: null, values: { ...DEFAULT_POLICY }, overridden: [] };
+}
+
+/** Reads a JSON or YAML policy file and merges it over the defaults. */
+export function loadPolicy(file: string): AppliedPolicy {
+  let doc: any;
+  try {
+    // YAML is a superset of JSON, so one parser reads both.
+    doc = parseYaml(fs.readFileSync(file, "utf8"));
+  } catch (e: any) {
+    throw new Error(`Cannot read policy file ${file}: ${e.message}`);
+  }
+  if (doc === null || typeof doc !== "object" || Array.isArray(doc)) {
+    throw new Error(`Policy file ${file} must contain an object of threshold names and values`);
+  }
+
+  const errors: string[] = [];
+  const values: Policy = { ...DEFAULT_POLICY };
+  const overridden: Array<keyof Policy> = [];
+
+  for (const [key, value] of Object.entries(doc)) {
+    if (!Object.hasOwn(POLICY_RULES, key)) {
+      errors.push(`unknown setting "${key}"`);
+      continue;
+    }
+    const name = key as keyof Policy;
+    const rule = POLICY_RULES[name];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${name} must be a number`);
+    } else if (value < rule.min || (rule.max !== undefined && value > rule.max)) {
+      errors.push(`${name} must be ${rule.max !== undefined ? `between ${rule.min} and ${rule.max}` : `at least ${rule.min}`}`);
+    } else if (rule.integer && !Number.isInteger(value)) {
+      errors.push(`${name} must be a whole number`);
+    } else {
+      values[name] = value;
+      overridden.push(name);
+    }
+  }
+
+  if (values.maxSwitchesPerHour < values.targetSwitchesPerHour) {
+    errors.push("maxSwitchesPerHour must not be below targetSwitchesPerHour");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy file ${file}:\n  - ${errors.join("\n  - ")}\n  Valid settings: ${Object.keys(POLICY_RULES).join(", ")}`);
+  }
+
+  return { source: file, values, overridden };
+}
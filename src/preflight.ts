@@ -0,0 +1,306 @@
+import oracledb from "oracledb";
+import * as fs from "fs";
+import * as path from "path";
+import { DbConfig, withConnection, queryRows } from "./db";
+
+interface PrivilegeCheck {
+  name: string;
+  ok: boolean;
+  grants: string[];
+  // Granted inside the PDB that holds the captured tables; everything else
+  // is granted from CDB$ROOT with CONTAINER=ALL in a multitenant database
+  local?: boolean;
+  // Cannot be checked from the container preflight runs in; neither passed nor failed
+  unverified?: boolean;
+}
+
+interface ContainerContext {
+  cdb: boolean;
+  // The container preflight is connected to
+  name: string | null;
+}
+
+interface GranteePrivileges {
+  roles: Set<string>;
+  sysPrivs: Set<string>;
+  // "OWNER.OBJECT:PRIVILEGE"
+  objectPrivs: Set<string>;
+}
+
+// Everything the Debezium Oracle connector account needs, from the connector's
+// "Preparing the database" documentation. The v$ views are granted through
+// their V_$ base views in SYS.
+const REQUIRED_SYS_PRIVS = [
+  "CREATE SESSION",
+  "LOGMINING",
+  "SELECT ANY TRANSACTION",
+  "CREATE TABLE",
+  "LOCK ANY TABLE",
+  "CREATE SEQUENCE",
+];
+
+// A common user switches into the PDB to read its dictionary.
+const CDB_SYS_PRIVS = ["SET CONTAINER"];
+
+const REQUIRED_ROLES = ["SELECT_CATALOG_ROLE", "EXECUTE_CATALOG_ROLE"];
+
+const REQUIRED_PACKAGES = ["DBMS_LOGMNR", "DBMS_LOGMNR_D"];
+
+const REQUIRED_VIEWS = [
+  "V_$DATABASE",
+  "V_$LOG",
+  "V_$LOG_HISTORY",
+  "V_$LOGFILE",
+  "V_$ARCHIVED_LOG",
+  "V_$ARCHIVE_DEST_STATUS",
+  "V_$LOGMNR_LOGS",
+  "V_$LOGMNR_CONTENTS",
+  "V_$LOGMNR_PARAMETERS",
+  "V_$TRANSACTION",
+  "V_$MYSTAT",
+  "V_$STATNAME",
+];
+
+export async function preflight(cfg: DbConfig, connectorUser: string): Promise<void> {
+  const schema = process.env.CAPTURE_SCHEMA;
+  const tablePattern = process.env.CAPTURE_TABLE_PATTERN;
+
+  if (!schema || !tablePattern) {
+    throw new Error("Missing CAPTURE_SCHEMA or CAPTURE_TABLE_PATTERN");
+  }
+
+  const user = connectorUser.toUpperCase();
+
+  await withConnection(cfg, async (conn) => {
+    const container = await getContainerContext(conn);
+    if (container.cdb && container.name === "CDB$ROOT") {
+      const pdbs = await queryRows<{ NAME: string }>(conn, `SELECT name AS NAME FROM v$containers WHERE con_id > 2 ORDER BY con_id`);
+      throw new Error(
+        `Connected to CDB$ROOT, where the captured tables and their grants are not visible` +
+        `${pdbs.length > 0 ? ` (PDBs: ${pdbs.map((p) => p.NAME).join(", ")})` : ""}. ` +
+        `Set ORACLE_SERVICE to the service of the PDB holding them and rerun preflight.`
+      );
+    }
+
+    console.log(`Checking privileges of connector user ${user}...`);
+
+    const exists = await queryRows<{ USERNAME: string; DEFAULT_TABLESPACE: string }>(conn, `
+      SELECT username AS USERNAME, default_tablespace AS DEFAULT_TABLESPACE FROM dba_users WHERE username = :u
+    `, { u: user }).catch((e: any) => {
+      throw new Error(`Cannot read DBA_USERS (${e.message}). The diagnostic user needs SELECT_CATALOG_ROLE for preflight.`);
+    });
+    if (exists.length === 0) {
+      throw new Error(`User ${user} does not exist`);
+    }
+    const defaultTablespace = exists[0].DEFAULT_TABLESPACE;
+
+    const privs = await getGranteePrivileges(conn, user);
+    const tables = await queryRows<{ TABLE_NAME: string }>(conn, `
+      SELECT table_name AS TABLE_NAME FROM all_tables
+      WHERE owner = :schema AND REGEXP_LIKE(table_name, :pattern)
+      ORDER BY table_name
+    `, { schema, pattern: tablePattern });
+
+    const common: PrivilegeCheck[] = [
+      ...(container.cdb ? [commonUserCheck(user)] : []),
+      ...[...REQUIRED_SYS_PRIVS, ...(container.cdb ? CDB_SYS_PRIVS : [])].map((p) => sysPrivCheck(privs, user, p)),
+      ...REQUIRED_ROLES.map((role) => ({
+        name: role,
+        ok: privs.roles.has(role),
+        grants: [`GRANT ${role} TO ${user};`],
+      })),
+      ...REQUIRED_PACKAGES.map((pkg) => ({
+        name: `EXECUTE ON ${pkg}`,
+        ok: privs.objectPrivs.has(`SYS.${pkg}:EXECUTE`) || privs.sysPrivs.has("EXECUTE ANY PROCEDURE"),
+        grants: [`GRANT EXECUTE ON SYS.${pkg} TO ${user};`],
+      })),
+      ...REQUIRED_VIEWS.map((view) => ({
+        name: `SELECT ON ${view}`,
+        ok: privs.objectPrivs.has(`SYS.${view}:SELECT`) || privs.sysPrivs.has("SELECT ANY DICTIONARY"),
+        grants: [`GRANT SELECT ON SYS.${view} TO ${user};`],
+      })),
+    ];
+    if (container.cdb) {
+      for (const c of common) c.grants = c.grants.map((g) => g.startsWith("GRANT ") ? g.replace(/;$/, " CONTAINER=ALL;") : g);
+    }
+
+    const checks: PrivilegeCheck[] = [
+      ...common,
+      tablePrivCheck(privs, user, schema, tables.map((t) => t.TABLE_NAME), "SELECT"),
+      tablePrivCheck(privs, user, schema, tables.map((t) => t.TABLE_NAME), "FLASHBACK"),
+      await quotaCheck(conn, privs, user, defaultTablespace, container),
+    ];
+
+    printChecks(checks, tables.length, schema, container);
+
+    const unverified = checks.filter((c) => c.unverified);
+    for (const c of unverified) {
+      console.log(`\n  Not verifiable from ${container.name}: ${c.name}. As SYS in CDB$ROOT, make sure of:`);
+      for (const g of c.grants) console.log(`    ${g}`);
+    }
+
+    const missing = checks.filter((c) => !c.ok && !c.unverified);
+    if (missing.length === 0) {
+      console.log(`\n✓ ${user} has every privilege the Debezium connector needs${unverified.length > 0 ? `, apart from the ${unverified.length} unverified above` : ""}.`);
+      return;
+    }
+
+    const sqlPath = path.join(process.cwd(), "dbz-connector-grants.sql");
+    fs.writeFileSync(sqlPath, generateGrantScript(user, missing, container));
+    console.error(`\n  GRANT script for the missing privileges (run as SYS${container.cdb ? " in CDB$ROOT" : ""}): ${sqlPath}`);
+    throw new Error(`${missing.length} privilege check(s) failed for ${user}`);
+  });
+}
+
+// v$database.cdb does not exist before 12c.
+async function getContainerContext(conn: oracledb.Connection): Promise<ContainerContext> {
+  const rows = await queryRows<{ CDB: string; CON_NAME: string }>(conn, `
+    SELECT cdb AS CDB, SYS_CONTEXT('USERENV', 'CON_NAME') AS CON_NAME FROM v$database
+  `).catch(() => []);
+  return { cdb: rows[0]?.CDB === "YES", name: rows[0]?.CON_NAME ?? null };
+}
+
+async function getGranteePrivileges(conn: oracledb.Connection, user: string): Promise<GranteePrivileges> {
+  // The user plus every role reachable from it, including roles granted to roles.
+  const grantees = `
+    SELECT :u AS name FROM dual
+    UNION
+    SELECT granted_role FROM dba_role_privs
+    START WITH grantee = :u
+    CONNECT BY PRIOR granted_role = grantee`;
+
+  const roles = await queryRows<{ NAME: string }>(conn, `SELECT name AS NAME FROM (${grantees}) WHERE name <> :u`, { u: user });
+  const sysPrivs = await queryRows<{ PRIVILEGE: string }>(conn, `
+    SELECT DISTINCT privilege AS PRIVILEGE FROM dba_sys_privs WHERE grantee IN (${grantees})
+  `, { u: user });
+  const objectPrivs = await queryRows<{ OWNER: string; TABLE_NAME: string; PRIVILEGE: string }>(conn, `
+    SELECT DISTINCT owner AS OWNER, table_name AS TABLE_NAME, privilege AS PRIVILEGE
+    FROM dba_tab_privs WHERE grantee IN (${grantees})
+  `, { u: user });
+
+  return {
+    roles: new Set(roles.map((r) => r.NAME)),
+    sysPrivs: new Set(sysPrivs.map((p) => p.PRIVILEGE)),
+    objectPrivs: new Set(objectPrivs.map((p) => `${p.OWNER}.${p.TABLE_NAME}:${p.PRIVILEGE}`)),
+  };
+}
+
+// Debezium mines from CDB$ROOT, where only common users can log in.
+function commonUserCheck(user: string): PrivilegeCheck {
+  const suggested = `C##${user.replace(/^C##/, "")}`;
+  return {
+    name: "Common user (C## prefix) for a multitenant database",
+    ok: user.startsWith("C##"),
+    grants: [
+      `-- ${user} is a local user and cannot connect to CDB$ROOT. Create a common user and rerun preflight for it:`,
+      `CREATE USER ${suggested} IDENTIFIED BY "<password>" CONTAINER=ALL;`,
+    ],
+  };
+}
+
+function sysPrivCheck(privs: GranteePrivileges, user: string, privilege: string): PrivilegeCheck {
+  return { name: privilege, ok: privs.sysPrivs.has(privilege), grants: [`GRANT ${privilege} TO ${user};`] };
+}
+
+function tablePrivCheck(
+  privs: GranteePrivileges,
+  user: string,
+  schema: string,
+  tables: string[],
+  privilege: "SELECT" | "FLASHBACK"
+): PrivilegeCheck {
+  if (privs.sysPrivs.has(`${privilege} ANY TABLE`)) {
+    return { name: `${privilege} on captured tables`, ok: true, grants: [] };
+  }
+  const missing = tables.filter((t) => !privs.objectPrivs.has(`${schema}.${t}:${privilege}`));
+  return {
+    name: `${privilege} on captured tables${missing.length > 0 ? ` (${missing.length} of ${tables.length} missing)` : ""}`,
+    ok: missing.length === 0,
+    grants: missing.map((t) => `GRANT ${privilege} ON ${schema}.${t} TO ${user};`),
+    local: true,
+  };
+}
+
+// Debezium creates LOG_MINING_FLUSH in the connector user's default tablespace.
+// In a CDB the connector mines from CDB$ROOT, so the table goes into the common
+// user's root default tablespace and the quota is a common grant.
+async function quotaCheck(
+  conn: oracledb.Connection,
+  privs: GranteePrivileges,
+  user: string,
+  tablespace: string,
+  container: ContainerContext
+): Promise<PrivilegeCheck> {
+  if (container.cdb) return rootQuotaCheck(privs, user);
+
+  const name = `Quota on ${tablespace} (LOG_MINING_FLUSH table)`;
+  if (privs.sysPrivs.has("UNLIMITED TABLESPACE")) {
+    return { name, ok: true, grants: [], local: true };
+  }
+  const quota = await queryRows<{ MAX_BYTES: number }>(conn, `
+    SELECT max_bytes AS MAX_BYTES FROM dba_ts_quotas WHERE username = :u AND tablespace_name = :ts
+  `, { u: user, ts: tablespace });
+  const maxBytes = quota[0]?.MAX_BYTES ?? 0;
+  return {
+    name,
+    ok: maxBytes === -1 || maxBytes > 0,
+    grants: [`ALTER USER ${user} QUOTA 100M ON ${tablespace};`],
+    local: true,
+  };
+}
+
+// Preflight runs in the PDB, where CDB_ views only show the PDB's own rows: the
+// common user's root default tablespace and its quota there cannot be read.
+// A common UNLIMITED TABLESPACE grant is visible and covers it.
+function rootQuotaCheck(privs: GranteePrivileges, user: string): PrivilegeCheck {
+  const name = "Quota on the CDB$ROOT default tablespace (LOG_MINING_FLUSH table)";
+  if (privs.sysPrivs.has("UNLIMITED TABLESPACE")) {
+    return { name, ok: true, grants: [] };
+  }
+  return {
+    name,
+    ok: false,
+    unverified: true,
+    grants: [`ALTER USER ${user} QUOTA 100M ON <ROOT_DEFAULT_TABLESPACE> CONTAINER=ALL;`],
+  };
+}
+
+function printChecks(checks: PrivilegeCheck[], tableCount: number, schema: string, container: ContainerContext): void {
+  if (container.cdb) console.log(`  Multitenant database, connected to ${container.name ?? "unknown container"}`);
+  console.log(`  Captured tables: ${tableCount} in ${schema}\n`);
+  for (const c of checks) {
+    console.log(`  ${c.unverified ? "?" : c.ok ? "✓" : "✗"} ${c.name}`);
+  }
+}
+
+function generateGrantScript(user: string, missing: PrivilegeCheck[], container: ContainerContext): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+
+  ln("-- ============================================================================");
+  ln(`-- Debezium Oracle connector privileges for ${user}`);
+  ln(`-- Generated: ${new Date().toISOString()}`);
+  if (container.cdb) {
+    ln("-- Run as SYS in CDB$ROOT. Table grants and the quota follow in the PDB.");
+  } else {
+    ln("-- Run as SYS (in the container that holds the captured tables).");
+  }
+  ln("-- ============================================================================");
+
+  const ordered = container.cdb ? [...missing.filter((c) => !c.local), ...missing.filter((c) => c.local)] : missing;
+  let inPdb = false;
+  for (const c of ordered) {
+    if (container.cdb && c.local && !inPdb) {
+      const pdb = container.name && container.name !== "CDB$ROOT" ? container.name : "<PDB_NAME>";
+      ln();
+      ln(`ALTER SESSION SET CONTAINER = ${pdb};`);
+      inPdb = true;
+    }
+    ln();
+    ln(`-- ${c.name}`);
+    for (const g of c.grants) ln(g);
+  }
+  ln();
+
+  return lines.join("\n");
+}
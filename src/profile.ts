@@ -0,0 +1,177 @@
+import { SampleData, sampleTimeMs } from "./bundle";
+import { round2 } from "./common";
+
+export interface LoadBucket {
+  label: string;
+  switchesPerHour: number;
+  archiveGbPerHour: number;
+  oldestTxnMinutes: number;
+  samples: number;
+}
+
+export interface PeakWindow {
+  label: string;
+  startHour: number;
+  endHour: number;
+  switchesPerHour: number;
+  archiveGbPerHour: number;
+  oldestTxnMinutes: number;
+}
+
+export interface LoadProfile {
+  hourly: LoadBucket[];
+  weekday: LoadBucket[];
+  peakWindows: PeakWindow[];
+  // Window holding most of the samples at or above each metric's p95, or null
+  // when those samples are spread across the day.
+  p95Windows: {
+    switches: string | null;
+    archiveGb: string | null;
+    oldestTxn: string | null;
+  };
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// An hour counts as peak when its average load is this far above the median hour.
+const PEAK_RATE_FACTOR = 1.5;
+const PEAK_TXN_FACTOR = 2;
+const PEAK_TXN_MIN_MINUTES = 30;
+
+export function buildLoadProfile(
+  data: SampleData,
+  multiplier: number,
+  p95: { switches: number; archiveGb: number; oldestTxn: number }
+): LoadProfile {
+  const hourly = bucketize(data, multiplier, 24, (d) => d.getUTCHours(), (h) => `${pad(h)}:00`);
+  // getUTCDay() counts from Sunday; the report starts the week on Monday.
+  const weekday = bucketize(data, multiplier, 7, (d) => (d.getUTCDay() + 6) % 7, (i) => WEEKDAYS[i]);
+  const peakWindows = detectPeakWindows(hourly);
+
+  return {
+    hourly,
+    weekday,
+    peakWindows,
+    p95Windows: {
+      switches: dominantWindow(data, "switches", p95.switches / multiplier, peakWindows),
+      archiveGb: dominantWindow(data, "archive_gb", p95.archiveGb / multiplier, peakWindows),
+      oldestTxn: dominantWindow(data, "oldest_txn_mins", p95.oldestTxn, peakWindows),
+    },
+  };
+}
+
+function bucketize(
+  data: SampleData,
+  multiplier: number,
+  size: number,
+  bucketOf: (d: Date) => number,
+  labelOf: (i: number) => string
+): LoadBucket[] {
+  const acc = Array.from({ length: size }, () => ({ switches: [] as number[], archiveGb: [] as number[], oldestTxn: [] as number[] }));
+
+  for (const s of data.samples) {
+    const bucket = acc[bucketOf(new Date(sampleTimeMs(s.time)))];
+    if (s.metric === "switches") bucket.switches.push(s.value * multiplier);
+    else if (s.metric === "archive_gb") bucket.archiveGb.push(s.value * multiplier);
+    else if (s.metric === "oldest_txn_mins") bucket.oldestTxn.push(s.value);
+  }
+
+  return acc.map((b, i) => ({
+    label: labelOf(i),
+    switchesPerHour: round2(avg(b.switches)),
+    archiveGbPerHour: round2(avg(b.archiveGb)),
+    oldestTxnMinutes: b.oldestTxn.length > 0 ? Math.max(...b.oldestTxn) : 0,
+    samples: b.switches.length,
+  }));
+}
+
+function detectPeakWindows(hourly: LoadBucket[]): PeakWindow[] {
+  const populated = hourly.filter((h) => h.samples > 0);
+  if (populated.length < 2) return [];
+
+  const medianSwitches = median(populated.map((h) => h.switchesPerHour));
+  const medianGb = median(populated.map((h) => h.archiveGbPerHour));
+  const medianTxn = median(populated.map((h) => h.oldestTxnMinutes));
+
+  const isPeak = (h: LoadBucket) =>
+    h.samples > 0 && (
+      (h.archiveGbPerHour > 0 && h.archiveGbPerHour > medianGb * PEAK_RATE_FACTOR) ||
+      (h.switchesPerHour > 0 && h.switchesPerHour > medianSwitches * PEAK_RATE_FACTOR) ||
+      (h.oldestTxnMinutes >= PEAK_TXN_MIN_MINUTES && h.oldestTxnMinutes > medianTxn * PEAK_TXN_FACTOR)
+    );
+
+  const peak = hourly.map(isPeak);
+  if (peak.every(Boolean)) return [];
+
+  // Start scanning right after a quiet hour so a window spanning midnight stays whole.
+  const startAt = peak.findIndex((p) => !p);
+  const windows: PeakWindow[] = [];
+  let run: number[] = [];
+  for (let i = 1; i <= 24; i++) {
+    const h = (startAt + i) % 24;
+    if (peak[h]) {
+      run.push(h);
+      continue;
+    }
+    if (run.length > 0) windows.push(toWindow(run, hourly));
+    run = [];
+  }
+
+  return windows.sort((a, b) => b.archiveGbPerHour - a.archiveGbPerHour);
+}
+
+function toWindow(hours: number[], hourly: LoadBucket[]): PeakWindow {
+  const startHour = hours[0];
+  const endHour = (hours[hours.length - 1] + 1) % 24;
+  const buckets = hours.map((h) => hourly[h]);
+  return {
+    label: `${pad(startHour)}:00–${pad(endHour)}:00 ${windowKind(startHour)}`,
+    startHour,
+    endHour,
+    switchesPerHour: Math.max(...buckets.map((b) => b.switchesPerHour)),
+    archiveGbPerHour: Math.max(...buckets.map((b) => b.archiveGbPerHour)),
+    oldestTxnMinutes: Math.max(...buckets.map((b) => b.oldestTxnMinutes)),
+  };
+}
+
+function windowKind(startHour: number): string {
+  if (startHour >= 7 && startHour < 18) return "business hours";
+  if (startHour >= 18 && startHour < 22) return "evening";
+  return "batch";
+}
+
+export function windowForHour(windows: PeakWindow[], hour: number): PeakWindow | null {
+  return windows.find((w) =>
+    w.startHour < w.endHour ? hour >= w.startHour && hour < w.endHour : hour >= w.startHour || hour < w.endHour
+  ) ?? null;
+}
+
+function dominantWindow(data: SampleData, metric: string, threshold: number, windows: PeakWindow[]): string | null {
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const s of data.samples) {
+    if (s.metric !== metric || s.value <= 0 || s.value < threshold) continue;
+    total++;
+    const w = windowForHour(windows, new Date(sampleTimeMs(s.time)).getUTCHours());
+    if (w) counts.set(w.label, (counts.get(w.label) ?? 0) + 1);
+  }
+
+  for (const [label, count] of counts) {
+    if (count > total / 2) return label;
+  }
+  return null;
+}
+
+function avg(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
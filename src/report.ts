@@ -1,12 +1,25 @@
-import oracledb from "oracledb";
-import { DbConfig, withConnection, queryRows } from "./db";
+import { DbConfig, withConnection } from "./db";
+import { SampleData, loadSampleData, readBundle, sampleTimeMs } from "./bundle";
+import { METRIC_KEY_SEPARATOR, keyedMetricName } from "./sampler";
+import { LoadBucket, LoadProfile, buildLoadProfile } from "./profile";
+import { generateJson } from "./json-report";
+import { CONFIG_FORMATS, ConfigFormat, generateConfig } from "./formats";
+import { Completeness, analyzeCompleteness } from "./completeness";
+import { Derivation, branchTerms, findDerivation, formatDerivation, maxTerms } from "./derivation";
+import { AppliedPolicy, DEFAULT_POLICY, POLICY_RULES, Policy } from "./policy";
+import { TransactionAttribution, analyzeTransactions } from "./transactions";
+import { FraCapacity, FraForecast, analyzeFra, forecastFra } from "./fra";
+import { BufferEstimate, EHCACHE_HEAP_MB, estimateBuffer } from "./buffer";
+import { SnapshotPlan, UndoRetention, getUndoRetention, planSnapshot } from "./snapshot";
+import { HeartbeatTables, heartbeatTableStatements, heartbeatTables } from "./heartbeat";
+import { TOPIC_REPLICATION_FACTOR, TOPIC_RETENTION_DAYS, TopicEstimate, estimateTopics } from "./topics";
+import { percentile, round2 } from "./common";
 import * as fs from "fs";
 import * as path from "path";
 
-const SAMPLE_TABLE = "DBZ_DIAG_SAMPLES";
-const STATIC_TABLE = "DBZ_DIAG_STATIC";
+const CDB_ROOT = "CDB$ROOT";
 
-interface MetricStats {
+export interface MetricStats {
   min: number;
   max: number;
   avg: number;
@@ -14,7 +27,52 @@ interface MetricStats {
   samples: number;
 }
 
-interface DiagReport {
+export interface ThreadStats {
+  thread: number;
+  switchesPerHour: MetricStats;
+  archiveGbPerHour: MetricStats;
+  redoLogGroups: number;
+  redoLogSizeGb: number;
+}
+
+// A captured table without a primary key. Debezium emits such rows with a
+// null message key unless message.key.columns names one.
+export interface KeylessTable {
+  table: string;
+  candidateIndex: string | null;
+  keyColumns: string[];
+}
+
+// A Data Guard destination this database ships redo to, with sampled lag.
+export interface StandbyDestination {
+  destName: string;
+  destination: string | null;
+  dbUniqueName: string | null;
+  // v$archive_dest_status.database_mode, e.g. OPEN_READ-ONLY
+  databaseMode: string | null;
+  recoveryMode: string | null;
+  // Open read-only while applying redo, so Debezium could mine it
+  activeDataGuard: boolean;
+  // Age of the oldest archive on disk not yet shipped to it
+  transportLagHours: MetricStats;
+  // Age of the oldest archive shipped but not yet applied
+  applyLagHours: MetricStats;
+}
+
+// Multitenant architecture of the sampled database.
+export interface ContainerInfo {
+  cdb: boolean;
+  // Container the diagnostic user was connected to (CDB$ROOT or a PDB)
+  containerName: string | null;
+  // PDB holding the captured tables: the connected PDB, or the only PDB
+  // visible from CDB$ROOT; null for a non-CDB or when it is ambiguous
+  pdbName: string | null;
+  pdbs: string[];
+  // DB_NAME of the sampled database; null in bundles from before it was recorded
+  dbName: string | null;
+}
+
+export interface DiagReport {
   // Observed metrics
   switchesPerHour: MetricStats;
   archiveGbPerHour: MetricStats;
@@ -24,27 +82,67 @@ interface DiagReport {
   archiveWindowHours: MetricStats;
   archiveDiskUsedGb: MetricStats;
   samplingDurationHours: number;
+  // One entry per redo thread (RAC instance); empty for samples taken before
+  // the sampler recorded threads separately.
+  threads: ThreadStats[];
+  loadProfile: LoadProfile;
+  completeness: Completeness;
+  // Sessions behind the oldest open transactions
+  transactions: TransactionAttribution;
+  // Fast recovery area space; null when no FRA is configured or sampled
+  fra: FraCapacity | null;
+  // Data Guard destinations; empty without a standby
+  standbys: StandbyDestination[];
 
   // Static config
+  container: ContainerInfo;
+  // v$database.database_role: PRIMARY, or PHYSICAL STANDBY when the
+  // collector sampled a standby
+  databaseRole: string;
   redoLogConfig: any[];
   lobColumns: any[];
+  unsupportedColumns: any[];
+  keylessTables: KeylessTable[];
   capturedTableCount: number;
   schemaTableCount: number;
   supplementalLogging: any;
+  // Captured tables without an ALL COLUMNS log group; empty when the
+  // database-level ALL COLUMNS logging already covers every table.
+  tablesMissingAllColumnLogging: string[];
   archiveLagTarget: number;
+  // db_recovery_file_dest_size in GB; null when no FRA is configured
+  fraSizeGb: number | null;
+  archiveDestinations: any[];
   maxStringSize: string;
   captureSchema: string;
   captureTablePattern: string;
+  tableStats: any[];
+  // Null when the sampler did not record it
+  undoRetention: UndoRetention | null;
+
+  // Thresholds the recommendations were computed with
+  policy: AppliedPolicy;
+  // Dedicated heartbeat and signaling tables (report --heartbeat-tables);
+  // null leaves heartbeat.action.query as a placeholder
+  heartbeat: HeartbeatTables | null;
+
+  // Per captured table, from sampled DML counts
+  topics: TopicEstimate[];
+  // Connector transaction buffer at the sampled undo usage; null for samples
+  // taken before undo usage was recorded
+  transactionBuffer: BufferEstimate | null;
 
   // Computed recommendations
   recommendations: Recommendations;
 }
 
-interface Recommendations {
+export interface Recommendations {
   redoLogSizeGb: number;
   redoLogGroups: number;
   archiveRetentionHours: number;
   archiveRetentionDiskGb: number;
+  // FRA with archives held at archiveRetentionHours; null without an FRA
+  fraForecast: FraForecast | null;
   lobEnabled: boolean;
   lobReason: string;
   transactionRetentionMs: number;
@@ -54,119 +152,256 @@ interface Recommendations {
   maxRetries: number;
   queryFilterMode: string;
   archiveLogOnlyMode: boolean;
-  warnings: string[];
+  // log.mining.buffer.type: "memory" or "ehcache"
+  bufferType: string;
+  // Disk for the ehcache events cache; null with the memory buffer
+  bufferCacheMb: number | null;
+  connectorHeapMb: number;
+  // Initial load of the captured tables: snapshot.mode and its sizing
+  snapshot: SnapshotPlan;
+  archiveLagTargetSec: number;
+  // message.key.columns for keyless tables that have a usable unique index
+  messageKeyColumns: string | null;
+  slowestThread: number | null;
+  // Peak window whose samples set the value, when one window dominates.
+  drivers: {
+    redoLogSize: string | null;
+    archiveRetention: string | null;
+    transactionRetention: string | null;
+  };
+  // Inputs, formula and winning branch behind each value above
+  derivations: Derivation[];
+  warnings: DiagWarning[];
 }
 
-export async function report(cfg: DbConfig): Promise<void> {
-  await withConnection(cfg, async (conn) => {
-    console.log("Reading collected data...\n");
+// Codes are part of the JSON report schema: never rename one, only add.
+export type WarningCode =
+  | "LOB_COLUMNS"
+  | "LOW_CAPTURE_RATIO"
+  | "ARCHIVE_LAG_TARGET_UNSET"
+  | "RAC_THREAD_SKEW"
+  | "SUPPLEMENTAL_LOG_MIN_MISSING"
+  | "SUPPLEMENTAL_LOG_ALL_MISSING"
+  | "UNSUPPORTED_COLUMN_TYPES"
+  | "KEYLESS_TABLES"
+  | "ORA_00308_RISK"
+  | "SAMPLE_GAPS"
+  | "FRA_RETENTION_EXCEEDS_SPACE"
+  | "FRA_FILL_FORECAST"
+  | "CDB_ROOT_CONNECTION"
+  | "STANDBY_LAG"
+  | "TXN_BUFFER_LARGE"
+  | "SNAPSHOT_EXCEEDS_UNDO"
+  | "SNAPSHOT_EXCEEDS_ARCHIVE_WINDOW";
+
+export interface DiagWarning {
+  code: WarningCode;
+  message: string;
+}
 
-    const duration = await getSamplingDuration(conn, cfg.user);
-    if (duration < 1) {
-      console.error("✗ Less than 1 hour of data collected. Let the sampler run longer.");
-      console.error(`  Current duration: ${duration.toFixed(1)} hours`);
-      return;
-    }
+export interface ReportOptions {
+  format: ConfigFormat;
+  policy: AppliedPolicy;
+  heartbeatTables?: boolean;
+}
 
-    const intervalMin = parseInt(process.env.SAMPLE_INTERVAL_MINUTES ?? "15", 10);
-    const hourMultiplier = 60 / intervalMin;
-
-    const diagReport: DiagReport = {
-      switchesPerHour: await getMetricStats(conn, cfg.user, "switches", hourMultiplier),
-      archiveGbPerHour: await getMetricStats(conn, cfg.user, "archive_gb", hourMultiplier),
-      avgArchiveFileSizeGb: await getMetricAvg(conn, cfg.user, "avg_archive_size_gb"),
-      oldestTxnMinutes: await getMetricStats(conn, cfg.user, "oldest_txn_mins"),
-      activeTxnCount: await getMetricStats(conn, cfg.user, "active_txn_count"),
-      archiveWindowHours: await getMetricStats(conn, cfg.user, "archive_window_hours"),
-      archiveDiskUsedGb: await getMetricStats(conn, cfg.user, "archive_disk_used_gb"),
-      samplingDurationHours: duration,
-
-      redoLogConfig: await getStatic(conn, cfg.user, "redo_log_config"),
-      lobColumns: await getStatic(conn, cfg.user, "lob_columns"),
-      capturedTableCount: parseInt(await getStaticRaw(conn, cfg.user, "captured_table_count") ?? "0", 10),
-      schemaTableCount: parseInt(await getStaticRaw(conn, cfg.user, "schema_table_count") ?? "0", 10),
-      supplementalLogging: await getStatic(conn, cfg.user, "supplemental_logging"),
-      archiveLagTarget: getArchiveLagTarget(await getStatic(conn, cfg.user, "archive_lag_target")),
-      maxStringSize: getMaxStringSize(await getStatic(conn, cfg.user, "max_string_size")),
-      captureSchema: await getStaticRaw(conn, cfg.user, "capture_schema") ?? "UNKNOWN",
-      captureTablePattern: await getStaticRaw(conn, cfg.user, "capture_table_pattern") ?? "UNKNOWN",
-
-      recommendations: {} as Recommendations,
-    };
+export async function report(cfg: DbConfig, opts: ReportOptions): Promise<void> {
+  const data = await withConnection(cfg, async (conn) => {
+    console.log("Reading collected data...\n");
+    return loadSampleData(conn, cfg.user);
+  });
+  writeReport(data, opts);
+}
 
-    diagReport.recommendations = computeRecommendations(diagReport);
+export async function reportFromBundle(file: string, opts: ReportOptions): Promise<void> {
+  console.log(`Reading bundle ${file}...\n`);
+  writeReport(readBundle(file), opts);
+}
 
-    const md = generateMarkdown(diagReport);
-    const env = generateEnvSnippet(diagReport.recommendations, diagReport);
+function writeReport(data: SampleData, opts: ReportOptions): void {
+  const duration = getSamplingDuration(data);
+  if (duration < 1) {
+    console.error("✗ Less than 1 hour of data collected. Let the sampler run longer.");
+    console.error(`  Current duration: ${duration.toFixed(1)} hours`);
+    return;
+  }
 
-    const outputDir = process.cwd();
-    const mdPath = path.join(outputDir, "dbz-diag-report.md");
-    const envPath = path.join(outputDir, "dbz-recommended.env");
+  const diagReport = buildDiagReport(data, opts.policy, { heartbeatTables: opts.heartbeatTables });
+  const md = generateMarkdown(diagReport);
+  const config = generateConfig(opts.format, diagReport);
+  const json = generateJson(diagReport);
+
+  const outputDir = process.cwd();
+  const mdPath = path.join(outputDir, "dbz-diag-report.md");
+  const configPath = path.join(outputDir, CONFIG_FORMATS[opts.format].fileName);
+  const jsonPath = path.join(outputDir, "dbz-diag-report.json");
+
+  fs.writeFileSync(mdPath, md);
+  fs.writeFileSync(configPath, config);
+  fs.writeFileSync(jsonPath, json);
+
+  console.log(`Report:  ${mdPath}`);
+  console.log(`Config:  ${configPath} (${CONFIG_FORMATS[opts.format].description})`);
+  console.log(`JSON:    ${jsonPath}`);
+
+  const supplementalSql = generateSupplementalLoggingSql(diagReport);
+  if (supplementalSql) {
+    const sqlPath = path.join(outputDir, "dbz-supplemental-logging.sql");
+    fs.writeFileSync(sqlPath, supplementalSql);
+    console.log(`SQL:     ${sqlPath} (supplemental logging DDL)`);
+  }
 
-    fs.writeFileSync(mdPath, md);
-    fs.writeFileSync(envPath, env);
+  if (diagReport.heartbeat) {
+    const sqlPath = path.join(outputDir, "dbz-heartbeat-signal.sql");
+    fs.writeFileSync(sqlPath, generateHeartbeatSql(diagReport, diagReport.heartbeat));
+    console.log(`SQL:     ${sqlPath} (heartbeat and signaling tables)`);
+  }
 
-    console.log(`Report:  ${mdPath}`);
-    console.log(`Config:  ${envPath}`);
-    console.log(`\nSampling duration: ${duration.toFixed(1)} hours`);
+  console.log(`\nSampling duration: ${duration.toFixed(1)} hours`);
+  if (opts.policy.source) {
+    console.log(`Policy: ${opts.policy.source} (${opts.policy.overridden.length} override(s))`);
+  }
 
-    if (diagReport.recommendations.warnings.length > 0) {
-      console.log("\n⚠ Warnings:");
-      for (const w of diagReport.recommendations.warnings) {
-        console.log(`  - ${w}`);
-      }
+  if (diagReport.recommendations.warnings.length > 0) {
+    console.log("\n⚠ Warnings:");
+    for (const w of diagReport.recommendations.warnings) {
+      console.log(`  - [${w.code}] ${w.message}`);
     }
+  }
+}
+
+/** Aggregates samples and statics and computes recommendations; writes nothing. */
+export function buildDiagReport(data: SampleData, policy: AppliedPolicy, opts: { heartbeatTables?: boolean } = {}): DiagReport {
+  const hourMultiplier = 60 / data.intervalMinutes;
+
+  const diagReport: DiagReport = {
+    switchesPerHour: getMetricStats(data, "switches", hourMultiplier),
+    archiveGbPerHour: getMetricStats(data, "archive_gb", hourMultiplier),
+    avgArchiveFileSizeGb: getMetricAvg(data, "avg_archive_size_gb"),
+    oldestTxnMinutes: getMetricStats(data, "oldest_txn_mins"),
+    activeTxnCount: getMetricStats(data, "active_txn_count"),
+    archiveWindowHours: getMetricStats(data, "archive_window_hours"),
+    archiveDiskUsedGb: getMetricStats(data, "archive_disk_used_gb"),
+    samplingDurationHours: getSamplingDuration(data),
+    threads: [],
+    loadProfile: {} as LoadProfile,
+    completeness: analyzeCompleteness(data),
+    transactions: analyzeTransactions(data),
+    fra: analyzeFra(data, getFraDestination(getStatic(data, "fra_destination"))),
+    standbys: getStandbys(data, getStatic(data, "standby_destinations")),
+
+    container: getContainerInfo(getStatic(data, "container"), getStatic(data, "pdbs")),
+    databaseRole: getDatabaseRole(getStatic(data, "database_role")),
+    redoLogConfig: getStatic(data, "redo_log_config") ?? [],
+    lobColumns: getStatic(data, "lob_columns"),
+    unsupportedColumns: getStatic(data, "unsupported_columns") ?? [],
+    keylessTables: getKeylessTables(getStatic(data, "keyless_tables")),
+    capturedTableCount: parseInt(getStaticRaw(data, "captured_table_count") ?? "0", 10),
+    schemaTableCount: parseInt(getStaticRaw(data, "schema_table_count") ?? "0", 10),
+    supplementalLogging: getStatic(data, "supplemental_logging"),
+    tablesMissingAllColumnLogging: [],
+    archiveLagTarget: getArchiveLagTarget(getStatic(data, "archive_lag_target")),
+    fraSizeGb: getFraSizeGb(getStatic(data, "fra_config")),
+    archiveDestinations: getStatic(data, "archive_destinations") ?? [],
+    maxStringSize: getMaxStringSize(getStatic(data, "max_string_size")),
+    captureSchema: getStaticRaw(data, "capture_schema") ?? "UNKNOWN",
+    captureTablePattern: getStaticRaw(data, "capture_table_pattern") ?? "UNKNOWN",
+    tableStats: getStatic(data, "table_stats") ?? [],
+    undoRetention: getUndoRetention(getStatic(data, "undo_retention")),
+
+    policy,
+    heartbeat: null,
+
+    topics: [],
+    transactionBuffer: null,
+
+    recommendations: {} as Recommendations,
+  };
+
+  diagReport.tablesMissingAllColumnLogging = getTablesMissingAllColumnLogging(
+    getStatic(data, "table_log_groups"),
+    diagReport.supplementalLogging
+  );
+  if (opts.heartbeatTables) {
+    // Debezium names tables <database>.<schema>.<table>; the database is the
+    // PDB in a CDB and database.dbname otherwise.
+    const catalog = diagReport.container.cdb
+      ? diagReport.container.pdbName ?? "<PDB_NAME>"
+      : diagReport.container.dbName ?? "<ORACLE_SERVICE>";
+    diagReport.heartbeat = heartbeatTables(diagReport.captureSchema, catalog);
+  }
+  diagReport.threads = getThreadStats(data, hourMultiplier, diagReport.redoLogConfig);
+  diagReport.loadProfile = buildLoadProfile(data, hourMultiplier, {
+    switches: diagReport.switchesPerHour.p95,
+    archiveGb: diagReport.archiveGbPerHour.p95,
+    oldestTxn: diagReport.oldestTxnMinutes.p95,
   });
+  diagReport.topics = estimateTopics(data, diagReport.tableStats);
+  diagReport.transactionBuffer = estimateBuffer(data, diagReport.topics, diagReport.tableStats);
+  diagReport.recommendations = computeRecommendations(diagReport, policy.values);
+
+  return diagReport;
+}
+
+// ── Metric aggregation ──────────────────────────────────────────────────────
+
+function getSamplingDuration(data: SampleData): number {
+  if (data.samples.length === 0) return 0;
+  let first = Infinity;
+  let last = -Infinity;
+  for (const s of data.samples) {
+    const t = sampleTimeMs(s.time);
+    first = Math.min(first, t);
+    last = Math.max(last, t);
+  }
+  return round2((last - first) / 3600000);
 }
 
-// ── Metric queries ──────────────────────────────────────────────────────────
-
-async function getSamplingDuration(conn: oracledb.Connection, user: string): Promise<number> {
-  const rows = await queryRows<{ HOURS: number }>(conn, `
-    SELECT ROUND((CAST(MAX(sample_time) AS DATE) - CAST(MIN(sample_time) AS DATE)) * 24, 2) AS HOURS
-    FROM ${user}.${SAMPLE_TABLE}
-  `);
-  return rows[0]?.HOURS ?? 0;
-}
-
-async function getMetricStats(
-  conn: oracledb.Connection,
-  user: string,
-  metricName: string,
-  multiplier = 1
-): Promise<MetricStats> {
-  const rows = await queryRows<{ MIN_V: number; MAX_V: number; AVG_V: number; P95_V: number; CNT: number }>(conn, `
-    SELECT
-      MIN(metric_value) * ${multiplier} AS MIN_V,
-      MAX(metric_value) * ${multiplier} AS MAX_V,
-      ROUND(AVG(metric_value) * ${multiplier}, 2) AS AVG_V,
-      ROUND(PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY metric_value) * ${multiplier}, 2) AS P95_V,
-      COUNT(*) AS CNT
-    FROM ${user}.${SAMPLE_TABLE}
-    WHERE metric_name = :name
-  `, { name: metricName });
-
-  const row = rows[0];
+function getMetricStats(data: SampleData, metricName: string, multiplier = 1): MetricStats {
+  const values = data.samples.filter((s) => s.metric === metricName).map((s) => s.value);
+  if (values.length === 0) return { min: 0, max: 0, avg: 0, p95: 0, samples: 0 };
+
+  const sorted = [...values].sort((a, b) => a - b);
   return {
-    min: row?.MIN_V ?? 0,
-    max: row?.MAX_V ?? 0,
-    avg: row?.AVG_V ?? 0,
-    p95: row?.P95_V ?? 0,
-    samples: row?.CNT ?? 0,
+    min: sorted[0] * multiplier,
+    max: sorted[sorted.length - 1] * multiplier,
+    avg: round2((values.reduce((a, b) => a + b, 0) / values.length) * multiplier),
+    p95: round2(percentile(sorted, 0.95) * multiplier),
+    samples: values.length,
   };
 }
 
-async function getMetricAvg(conn: oracledb.Connection, user: string, metricName: string): Promise<number> {
-  const rows = await queryRows<{ AVG_V: number }>(conn, `
-    SELECT ROUND(AVG(metric_value), 2) AS AVG_V
-    FROM ${user}.${SAMPLE_TABLE}
-    WHERE metric_name = :name AND metric_value > 0
-  `, { name: metricName });
-  return rows[0]?.AVG_V ?? 0;
+function getThreadStats(data: SampleData, multiplier: number, redoLogConfig: any[]): ThreadStats[] {
+  const prefix = `switches${METRIC_KEY_SEPARATOR}`;
+  const threads = new Set<number>();
+  for (const s of data.samples) {
+    if (s.metric.startsWith(prefix)) threads.add(parseInt(s.metric.slice(prefix.length), 10));
+  }
+
+  return [...threads].sort((a, b) => a - b).map((thread) => {
+    const logs = redoLogConfig.filter((l) => l.THREAD === thread);
+    return {
+      thread,
+      switchesPerHour: getMetricStats(data, keyedMetricName("switches", thread), multiplier),
+      archiveGbPerHour: getMetricStats(data, keyedMetricName("archive_gb", thread), multiplier),
+      redoLogGroups: logs.length,
+      redoLogSizeGb: logs.length > 0 ? logs[0].BYTES / (1024 ** 3) : 0,
+    };
+  });
+}
+
+function getMetricAvg(data: SampleData, metricName: string): number {
+  const values = data.samples.filter((s) => s.metric === metricName && s.value > 0).map((s) => s.value);
+  if (values.length === 0) return 0;
+  return round2(values.reduce((a, b) => a + b, 0) / values.length);
+}
+
+function roundUp(n: number, step: number): number {
+  return Math.ceil(n / step) * step;
 }
 
-async function getStatic(conn: oracledb.Connection, user: string, checkName: string): Promise<any> {
-  const raw = await getStaticRaw(conn, user, checkName);
+function getStatic(data: SampleData, checkName: string): any {
+  const raw = getStaticRaw(data, checkName);
   if (!raw) return null;
   try {
     return JSON.parse(raw);
@@ -175,11 +410,10 @@ async function getStatic(conn: oracledb.Connection, user: string, checkName: str
   }
 }
 
-async function getStaticRaw(conn: oracledb.Connection, user: string, checkName: string): Promise<string | null> {
-  const rows = await queryRows<{ CHECK_VALUE: string }>(conn, `
-    SELECT check_value AS CHECK_VALUE FROM ${user}.${STATIC_TABLE} WHERE check_name = :name
-  `, { name: checkName });
-  return rows[0]?.CHECK_VALUE ?? null;
+// Statics are ordered by check time, so the latest collection wins.
+function getStaticRaw(data: SampleData, checkName: string): string | null {
+  const matches = data.statics.filter((s) => s.name === checkName);
+  return matches.length > 0 ? matches[matches.length - 1].value : null;
 }
 
 function getArchiveLagTarget(data: any): number {
@@ -187,6 +421,79 @@ function getArchiveLagTarget(data: any): number {
   return 0;
 }
 
+function getFraSizeGb(data: any): number | null {
+  if (!Array.isArray(data)) return null;
+  const size = parseInt(data.find((p: any) => p.NAME === "db_recovery_file_dest_size")?.VALUE ?? "0", 10);
+  return size > 0 ? round2(size / (1024 ** 3)) : null;
+}
+
+function getFraDestination(data: any): string | null {
+  return Array.isArray(data) && data.length > 0 ? data[0].NAME ?? null : null;
+}
+
+function getStandbys(data: SampleData, rows: any): StandbyDestination[] {
+  if (!Array.isArray(rows)) return [];
+  return rows.map((row: any) => ({
+    destName: row.DEST_NAME,
+    destination: row.DESTINATION ?? null,
+    dbUniqueName: row.DB_UNIQUE_NAME ?? null,
+    databaseMode: row.DATABASE_MODE ?? null,
+    recoveryMode: row.RECOVERY_MODE ?? null,
+    activeDataGuard: row.DATABASE_MODE === "OPEN_READ-ONLY" && /MANAGED/.test(row.RECOVERY_MODE ?? ""),
+    transportLagHours: getMetricStats(data, keyedMetricName("standby_transport_lag_hours", row.DEST_NAME)),
+    applyLagHours: getMetricStats(data, keyedMetricName("standby_apply_lag_hours", row.DEST_NAME)),
+  }));
+}
+
+function getDatabaseRole(data: any): string {
+  return Array.isArray(data) && data.length > 0 ? data[0].DATABASE_ROLE ?? "PRIMARY" : "PRIMARY";
+}
+
+// Bundles from before the sampler recorded containers read as a non-CDB.
+function getContainerInfo(container: any, pdbs: any): ContainerInfo {
+  const row = Array.isArray(container) ? container[0] : null;
+  const cdb = row?.CDB === "YES";
+  const containerName: string | null = row?.CON_NAME ?? null;
+  const pdbNames: string[] = Array.isArray(pdbs) ? pdbs.map((p: any) => p.NAME) : [];
+
+  let pdbName: string | null = null;
+  if (cdb && containerName && containerName !== CDB_ROOT) pdbName = containerName;
+  else if (cdb && pdbNames.length === 1) pdbName = pdbNames[0];
+
+  return { cdb, containerName, pdbName, pdbs: pdbNames, dbName: row?.DB_NAME ?? null };
+}
+
+// Database-level ALL COLUMNS logging covers every table, so only the
+// per-table log groups matter when it is off.
+function getTablesMissingAllColumnLogging(tableLogGroups: any, supplementalLogging: any): string[] {
+  if (!Array.isArray(tableLogGroups)) return [];
+  if (Array.isArray(supplementalLogging) && supplementalLogging[0]?.SUPPLEMENTAL_LOG_DATA_ALL === "YES") return [];
+  return tableLogGroups.filter((t: any) => t.ALL_COLUMN_LOGGING !== "YES").map((t: any) => t.TABLE_NAME);
+}
+
+// Rows come one per unique index. A key column must never be null, so only
+// indexes over NOT NULL columns qualify, the narrowest first; indexes on
+// expressions (hidden SYS_NC columns) cannot be named as key columns.
+function getKeylessTables(rows: any): KeylessTable[] {
+  if (!Array.isArray(rows)) return [];
+  const byTable = new Map<string, any[]>();
+  for (const row of rows) {
+    if (!byTable.has(row.TABLE_NAME)) byTable.set(row.TABLE_NAME, []);
+    if (row.INDEX_NAME && !(row.NULLABLE_COLUMNS > 0) && !/SYS_NC/.test(row.INDEX_COLUMNS ?? "")) {
+      byTable.get(row.TABLE_NAME)!.push(row);
+    }
+  }
+
+  return [...byTable].map(([table, indexes]) => {
+    const best = indexes.sort((a, b) => a.INDEX_COLUMNS.split(",").length - b.INDEX_COLUMNS.split(",").length)[0];
+    return {
+      table,
+      candidateIndex: best?.INDEX_NAME ?? null,
+      keyColumns: best ? best.INDEX_COLUMNS.split(",") : [],
+    };
+  });
+}
+
 function getMaxStringSize(data: any): string {
   if (Array.isArray(data) && data.length > 0) return data[0]?.VALUE ?? "STANDARD";
   return "STANDARD";
@@ -194,50 +501,193 @@ function getMaxStringSize(data: any): string {
 
 // ── Recommendation engine ───────────────────────────────────────────────────
 
-function computeRecommendations(r: DiagReport): Recommendations {
-  const warnings: string[] = [];
+// An FRA forecast to fill within this many days is worth a warning even when
+// the retention itself fits.
+const FRA_FORECAST_WARN_DAYS = 7;
+
+function computeRecommendations(r: DiagReport, policy: Policy): Recommendations {
+  const warnings: DiagWarning[] = [];
+  const warn = (code: WarningCode, message: string) => warnings.push({ code, message });
+  const derivations: Derivation[] = [];
+  const derive = (d: Derivation) => derivations.push(d);
   const hasLobs = r.lobColumns && r.lobColumns.length > 0;
 
+  // ── Redo streams ──
+  // Each RAC thread has its own redo groups and switches independently, so
+  // sizing follows the busiest thread and retention the slowest one. Without
+  // per-thread samples the cluster totals stand in for a single stream.
+  const streams: ThreadStats[] = r.threads.length > 0 ? r.threads : [{
+    thread: 1,
+    switchesPerHour: r.switchesPerHour,
+    archiveGbPerHour: r.archiveGbPerHour,
+    redoLogGroups: r.redoLogConfig.length,
+    redoLogSizeGb: r.redoLogConfig.length > 0 ? r.redoLogConfig[0].BYTES / (1024 ** 3) : 0,
+  }];
+  const busiest = streams.reduce((a, b) => (b.archiveGbPerHour.p95 > a.archiveGbPerHour.p95 ? b : a));
+  const slowest = streams.reduce((a, b) => (b.switchesPerHour.p95 < a.switchesPerHour.p95 ? b : a));
+  const peakSwitchesPerHour = Math.max(...streams.map((t) => t.switchesPerHour.p95));
+
   // ── Redo log sizing ──
-  // Target: 3-5 switches/hour at peak.
+  // Target: policy.targetSwitchesPerHour (default 4) at peak.
   // If current peak is already in range, keep current size.
   // If too many switches, recommend larger. If too few, keep (fewer is fine).
   const currentRedoSizeGb = r.redoLogConfig.length > 0
     ? r.redoLogConfig[0].BYTES / (1024 ** 3)
     : 4;
-  const currentGroups = r.redoLogConfig.length;
+  const currentGroups = r.threads.length > 0
+    ? Math.min(...r.threads.map((t) => t.redoLogGroups || r.redoLogConfig.length))
+    : r.redoLogConfig.length;
 
   let redoLogSizeGb = currentRedoSizeGb;
-  if (r.switchesPerHour.p95 > 6) {
+  let redoLogSizeDriver: string | null = null;
+  const peakGbPerHour = busiest.archiveGbPerHour.p95 || busiest.archiveGbPerHour.max;
+  const resize = peakSwitchesPerHour > policy.maxSwitchesPerHour;
+  if (resize) {
     // Too many switches, need bigger logs
-    const targetSwitches = 4;
-    const peakGbPerHour = r.archiveGbPerHour.p95 || r.archiveGbPerHour.max;
-    redoLogSizeGb = Math.ceil(peakGbPerHour / targetSwitches);
-    redoLogSizeGb = Math.max(redoLogSizeGb, 2); // minimum 2GB
+    redoLogSizeGb = Math.ceil(peakGbPerHour / policy.targetSwitchesPerHour);
+    redoLogSizeGb = Math.max(redoLogSizeGb, policy.minRedoLogSizeGb);
+    redoLogSizeDriver = r.loadProfile.p95Windows.archiveGb;
   }
+  const threadLabel = r.threads.length > 1 ? ` (thread ${busiest.thread})` : "";
+  derive({
+    parameter: "redoLogSizeGb",
+    property: "redo log member size",
+    value: Math.round(redoLogSizeGb * 10) / 10,
+    formula: "peak switches/h > maxSwitchesPerHour ? max(ceil(peak archive GB/h ÷ targetSwitchesPerHour), minRedoLogSizeGb) : current size",
+    inputs: [
+      { name: "peak switches/h (p95, busiest thread)", value: peakSwitchesPerHour },
+      { name: `peak archive GB/h (p95${threadLabel})`, value: round2(peakGbPerHour) },
+      { name: "current redo log size GB", value: round2(currentRedoSizeGb) },
+      { name: "policy.maxSwitchesPerHour", value: policy.maxSwitchesPerHour },
+      { name: "policy.targetSwitchesPerHour", value: policy.targetSwitchesPerHour },
+      { name: "policy.minRedoLogSizeGb", value: policy.minRedoLogSizeGb },
+    ],
+    terms: resize
+      ? maxTerms([
+        { label: "ceil(peak archive GB/h ÷ target switches)", value: Math.ceil(peakGbPerHour / policy.targetSwitchesPerHour) },
+        { label: "minimum size", value: policy.minRedoLogSizeGb },
+      ])
+      : [{ label: "current size (switch rate within limit)", value: round2(currentRedoSizeGb), chosen: true }],
+    reason: resize
+      ? `Peak ${peakSwitchesPerHour} switches/h exceeds ${policy.maxSwitchesPerHour}; logs are sized for ${policy.targetSwitchesPerHour} switches/h at the peak archive rate${drivenBy(redoLogSizeDriver)}.`
+      : `Peak ${peakSwitchesPerHour} switches/h is within the ${policy.maxSwitchesPerHour}/h limit, so the current size is kept.`,
+  });
 
-  // Groups: minimum 4, one more than typical concurrent ACTIVE logs
-  let redoLogGroups = Math.max(currentGroups, 4);
+  // Groups (per thread): minimum 4, one more than typical concurrent ACTIVE logs
+  let redoLogGroups = Math.max(currentGroups, policy.minRedoLogGroups);
+  derive({
+    parameter: "redoLogGroups",
+    property: "redo log groups per thread",
+    value: redoLogGroups,
+    formula: "max(current groups, minRedoLogGroups)",
+    inputs: [
+      { name: "current groups (fewest on any thread)", value: currentGroups },
+      { name: "policy.minRedoLogGroups", value: policy.minRedoLogGroups },
+    ],
+    terms: maxTerms([
+      { label: "current groups", value: currentGroups },
+      { label: "minimum groups", value: policy.minRedoLogGroups },
+    ]),
+    reason: currentGroups >= policy.minRedoLogGroups
+      ? "The current group count already meets the minimum."
+      : `Fewer than ${policy.minRedoLogGroups} groups risks waiting on checkpoints while LogMiner reads the online logs.`,
+  });
 
   // ── Archive retention ──
   // Must exceed: max observed transaction duration + archiving delay + safety buffer
   // With LOB disabled, transaction pinning shouldn't be an issue, but we account for
   // LogMiner session duration (proportional to archive file size) + RMAN race window.
-  const archiveWriteTimeMin = (r.avgArchiveFileSizeGb / 0.5) * 1; // ~0.5 GB/s write speed estimate → minutes
-  const logMinerSessionOverheadMin = 15; // conservative estimate for session referencing files
-  const safetyBufferMin = 60;
+  const archiveWriteTimeMin = (r.avgArchiveFileSizeGb / policy.archiveWriteGbPerSec) * 1; // write speed estimate → minutes
+  const logMinerSessionOverheadMin = policy.logMinerOverheadMin; // conservative estimate for session referencing files
+  const safetyBufferMin = policy.safetyBufferMin;
 
   // The key constraint: retention > (time LogMiner might reference an old file)
-  // With LOB off: this is roughly the archive write time + a couple of switch intervals
-  const switchIntervalMinP95 = r.switchesPerHour.p95 > 0 ? 60 / r.switchesPerHour.p95 : 30;
+  // With LOB off: this is roughly the archive write time + a couple of switch intervals.
+  // LogMiner merges all threads by SCN, so the slowest-switching thread sets the interval.
+  const switchIntervalMinP95 = slowest.switchesPerHour.p95 > 0 ? 60 / slowest.switchesPerHour.p95 : 30;
+  const txnTermMin = r.oldestTxnMinutes.p95 + safetyBufferMin;
+  const switchTermMin = switchIntervalMinP95 * 3 + archiveWriteTimeMin + logMinerSessionOverheadMin + safetyBufferMin;
+  // A standby still missing an archive needs it kept as well. Shipping and
+  // applying both hold it, so the later of the two counts, at its p95.
+  const standbyLagHours = Math.max(0, ...r.standbys.map((s) => Math.max(s.transportLagHours.p95, s.applyLagHours.p95)));
+  const standbyTermMin = r.standbys.length > 0 ? standbyLagHours * 60 + safetyBufferMin : 0;
   const minRetentionMin = Math.max(
-    r.oldestTxnMinutes.p95 + safetyBufferMin,
-    switchIntervalMinP95 * 3 + archiveWriteTimeMin + logMinerSessionOverheadMin + safetyBufferMin,
-    120 // absolute minimum 2 hours
+    txnTermMin,
+    switchTermMin,
+    policy.minArchiveRetentionMin, // absolute minimum, 2 hours by default
+    standbyTermMin
   );
   const archiveRetentionHours = Math.ceil(minRetentionMin / 60);
+  const archiveRetentionDriver = minRetentionMin === policy.minArchiveRetentionMin || minRetentionMin === standbyTermMin ? null
+    : txnTermMin >= switchTermMin ? r.loadProfile.p95Windows.oldestTxn
+    : r.loadProfile.p95Windows.switches;
+
+  const retentionTerms = maxTerms([
+    { label: "p95 oldest txn + safety buffer (min)", value: txnTermMin },
+    { label: "3 × switch interval + archive write + LogMiner overhead + safety buffer (min)", value: switchTermMin },
+    { label: "floor (min)", value: policy.minArchiveRetentionMin },
+    ...(r.standbys.length > 0 ? [{ label: "p95 standby transport/apply lag + safety buffer (min)", value: standbyTermMin }] : []),
+  ]);
+  const retentionWinner = retentionTerms.findIndex((t) => t.chosen);
+  derive({
+    parameter: "archiveRetentionHours",
+    property: "RMAN archivelog deletion window",
+    value: archiveRetentionHours,
+    formula: "ceil(max(p95 oldest txn + safetyBufferMin, 3 × switch interval + avg archive GB ÷ archiveWriteGbPerSec + logMinerOverheadMin + safetyBufferMin, minArchiveRetentionMin" +
+      `${r.standbys.length > 0 ? ", p95 standby lag + safetyBufferMin" : ""}) ÷ 60)`,
+    inputs: [
+      { name: "oldest txn p95 (min)", value: r.oldestTxnMinutes.p95 },
+      { name: `switches/h p95 (slowest${r.threads.length > 1 ? `, thread ${slowest.thread}` : ""})`, value: slowest.switchesPerHour.p95 },
+      { name: "switch interval p95 (min)", value: round2(switchIntervalMinP95) },
+      { name: "avg archive file GB", value: r.avgArchiveFileSizeGb },
+      { name: "archive write time (min)", value: round2(archiveWriteTimeMin) },
+      { name: "policy.logMinerOverheadMin", value: policy.logMinerOverheadMin },
+      { name: "policy.safetyBufferMin", value: policy.safetyBufferMin },
+      { name: "policy.minArchiveRetentionMin", value: policy.minArchiveRetentionMin },
+      ...(r.standbys.length > 0 ? [{ name: "standby lag p95 (h, most behind)", value: round2(standbyLagHours) }] : []),
+    ],
+    terms: retentionTerms,
+    reason: [
+      "The oldest open transaction sets the retention: LogMiner needs every archive log since it started",
+      "The switch cadence sets the retention: LogMiner may still be reading logs a few switch intervals old",
+      "Both sample-based terms are below the floor, so the minimum retention applies",
+      "A lagging standby sets the retention: archives it has not received or applied yet must stay on disk",
+    ][retentionWinner] + `${drivenBy(archiveRetentionDriver)}.`,
+  });
 
   const retentionDiskGb = r.archiveGbPerHour.p95 * archiveRetentionHours;
+  derive({
+    parameter: "archiveRetentionDiskGb",
+    property: null,
+    value: Math.round(retentionDiskGb),
+    formula: "archive GB/h p95 × archiveRetentionHours",
+    inputs: [
+      { name: "archive GB/h p95 (all threads)", value: r.archiveGbPerHour.p95 },
+      { name: "archiveRetentionHours", value: archiveRetentionHours },
+    ],
+    terms: [],
+    reason: "Disk for the retention window if archives were generated at the p95 rate throughout.",
+  });
+
+  // ── FRA capacity ──
+  // Everything in the FRA except archived logs (backups, flashback logs) is
+  // assumed to stay; archives settle at the retention disk estimate.
+  const fraForecast = r.fra ? forecastFra(r.fra, retentionDiskGb, policy.fraAlertPct) : null;
+  if (r.fra && fraForecast) {
+    if (!fraForecast.retentionFits) {
+      warn("FRA_RETENTION_EXCEEDS_SPACE",
+        `${archiveRetentionHours}h of archives (~${Math.round(retentionDiskGb)} GB) would take the FRA to ` +
+        `${fraForecast.projectedUsedPct}% of its ${r.fra.spaceLimitGb} GB limit, above the ${policy.fraAlertPct}% alert level. ` +
+        `Only ${fraForecast.archiveCapacityGb} GB is left for archives after other FRA files. ` +
+        `Raise DB_RECOVERY_FILE_DEST_SIZE or move backups out of the FRA before enabling Debezium.`
+      );
+    } else if (fraForecast.daysToFull !== null && fraForecast.daysToFull < FRA_FORECAST_WARN_DAYS) {
+      warn("FRA_FILL_FORECAST",
+        `FRA occupancy is growing ${r.fra.growthGbPerDay} GB/day; at the recommended retention it fills in ` +
+        `~${fraForecast.daysToFull.toFixed(1)} day(s). Check that backups are purged from the FRA.`
+      );
+    }
+  }
 
   // ── LOB ──
   let lobEnabled = false;
@@ -247,12 +697,64 @@ function computeRecommendations(r: DiagReport): Recommendations {
     lobReason = `${r.lobColumns.length} LOB column(s) found in captured tables. ` +
       `LOB capture disabled by default to prevent watermark pinning. ` +
       `Enable only if LOB data capture is required AND retention is >= ${archiveRetentionHours + 1}h.`;
-    warnings.push(
+    warn("LOB_COLUMNS",
       `LOB columns detected: ${r.lobColumns.map((c: any) => `${c.TABLE_NAME}.${c.COLUMN_NAME}`).join(", ")}. ` +
       `If LOB capture is needed, consider VARCHAR2(32767) conversion (max_string_size=${r.maxStringSize}).`
     );
   }
 
+  // ── Unsupported column types ──
+  if (r.unsupportedColumns.length > 0) {
+    const tables = new Set(r.unsupportedColumns.map((c: any) => c.TABLE_NAME));
+    warn("UNSUPPORTED_COLUMN_TYPES",
+      `${r.unsupportedColumns.length} column(s) in ${tables.size} captured table(s) have types the LogMiner adapter ` +
+      `does not capture (LONG, LONG RAW, BFILE, XMLTYPE, object types or nested tables): ` +
+      `${r.unsupportedColumns.map((c: any) => `${c.TABLE_NAME}.${c.COLUMN_NAME} (${c.DATA_TYPE})`).join(", ")}. ` +
+      `Changes to these columns are missing from events or arrive as null.`
+    );
+  }
+
+  // ── Tables without a primary key ──
+  // Debezium keys events on the primary key only; without one the message key
+  // is null, so compaction and per-key ordering break for these topics.
+  const keyed = r.keylessTables.filter((t) => t.keyColumns.length > 0);
+  const messageKeyColumns = keyed.length > 0
+    ? keyed.map((t) => `(.*).${r.captureSchema}.${t.table}:${t.keyColumns.join(",")}`).join(";")
+    : null;
+  derive({
+    parameter: "messageKeyColumns",
+    property: "message.key.columns",
+    value: messageKeyColumns,
+    formula: "for each captured table without a primary key: the unique index over NOT NULL columns with the fewest columns",
+    inputs: [
+      { name: "tables without a primary key", value: r.keylessTables.length },
+      { name: "with a candidate unique index", value: keyed.length },
+    ],
+    terms: r.keylessTables.map((t) => ({ label: t.table, value: t.candidateIndex ?? "no candidate", chosen: t.keyColumns.length > 0 })),
+    reason: messageKeyColumns
+      ? "Without it these tables' events carry a null key."
+      : "Every captured table has a primary key, or none has a usable unique index.",
+  });
+  if (r.keylessTables.length > 0) {
+    const noCandidate = r.keylessTables.filter((t) => t.keyColumns.length === 0).map((t) => t.table);
+    warn("KEYLESS_TABLES",
+      `${r.keylessTables.length} captured table(s) have no primary key: ${r.keylessTables.map((t) => t.table).join(", ")}. ` +
+      `Their events have a null message key. ` +
+      (keyed.length > 0 ? `message.key.columns is set from a unique index for ${keyed.length} of them. ` : "") +
+      (noCandidate.length > 0 ? `No unique index over NOT NULL columns to key on: ${noCandidate.join(", ")} — add a primary key before capture.` : "")
+    );
+  }
+
+  derive({
+    parameter: "lobEnabled",
+    property: "lob.enabled",
+    value: lobEnabled,
+    formula: "false unless LOB capture is explicitly required",
+    inputs: [{ name: "LOB columns in captured tables", value: r.lobColumns?.length ?? 0 }],
+    terms: [],
+    reason: lobReason,
+  });
+
   // ── Transaction retention ──
   // Must cover the full lifetime of the longest observed transaction.
   // LogMiner pins the watermark at the oldest open txn's start SCN; all
@@ -260,23 +762,213 @@ function computeRecommendations(r: DiagReport): Recommendations {
   // (uncapped) ensures Debezium doesn't abandon a legitimately long txn and
   // leave the watermark pinned longer than expected.  Minimum 5 min.
   const txnRetentionMs = Math.max(
-    r.oldestTxnMinutes.p95 * 2 * 60 * 1000,
-    300000
+    r.oldestTxnMinutes.p95 * policy.txnRetentionMultiplier * 60 * 1000,
+    policy.minTxnRetentionMs
   );
+  derive({
+    parameter: "transactionRetentionMs",
+    property: "log.mining.transaction.retention.ms",
+    value: txnRetentionMs,
+    formula: "max(oldest txn p95 × txnRetentionMultiplier × 60000, minTxnRetentionMs)",
+    inputs: [
+      { name: "oldest txn p95 (min)", value: r.oldestTxnMinutes.p95 },
+      { name: "policy.txnRetentionMultiplier", value: policy.txnRetentionMultiplier },
+      { name: "policy.minTxnRetentionMs", value: policy.minTxnRetentionMs },
+    ],
+    terms: maxTerms([
+      { label: "p95 oldest txn × multiplier (ms)", value: r.oldestTxnMinutes.p95 * policy.txnRetentionMultiplier * 60 * 1000 },
+      { label: "floor (ms)", value: policy.minTxnRetentionMs },
+    ]),
+    reason: txnRetentionMs > policy.minTxnRetentionMs
+      ? `Leaves room for transactions up to ${policy.txnRetentionMultiplier}× the p95 age before Debezium abandons them${drivenBy(r.loadProfile.p95Windows.oldestTxn)}.`
+      : "Observed transactions are short, so the floor applies.",
+  });
 
   // ── Heartbeat ──
   // More frequent when archive retention is tight
   const heartbeatIntervalMs = archiveRetentionHours <= 2 ? 10000 : 30000;
+  derive({
+    parameter: "heartbeatIntervalMs",
+    property: "heartbeat.interval.ms",
+    value: heartbeatIntervalMs,
+    formula: "archiveRetentionHours <= 2 ? 10000 : 30000",
+    inputs: [{ name: "archiveRetentionHours", value: archiveRetentionHours }],
+    terms: branchTerms(archiveRetentionHours <= 2, "retention <= 2h", 10000, "retention > 2h", 30000),
+    reason: "With a tight archive window the offset must advance often, even when captured tables are idle.",
+  });
+
+  // ── Transaction buffer ──
+  // Sized on the largest sample rather than p95: month-end batches are exactly
+  // the peaks that run a connector out of heap. Without undo samples the
+  // disk-backed buffer is the safe choice.
+  const buffer = r.transactionBuffer;
+  const bufferMb = buffer?.maxMb ?? 0;
+  const useEhcache = !buffer || bufferMb > policy.memoryBufferMaxMb;
+  const bufferType = useEhcache ? "ehcache" : "memory";
+  derive({
+    parameter: "bufferType",
+    property: "log.mining.buffer.type",
+    value: bufferType,
+    formula: "no undo samples or max buffered MB > memoryBufferMaxMb ? ehcache : memory",
+    inputs: [
+      { name: "max buffered events (undo records)", value: buffer?.maxEvents ?? null },
+      { name: "est. bytes per buffered event", value: buffer?.eventBytes ?? null },
+      { name: "max buffered MB", value: buffer ? bufferMb : null },
+      { name: "policy.memoryBufferMaxMb", value: policy.memoryBufferMaxMb },
+    ],
+    terms: branchTerms(useEhcache, buffer ? "buffer above the heap limit" : "no undo samples", "ehcache", "buffer fits on the heap", "memory"),
+    reason: !buffer
+      ? "No undo usage was sampled, so the buffer size is unknown; ehcache spills to disk instead of running out of heap."
+      : useEhcache
+        ? `Open transactions held up to ~${bufferMb} MB of changes${buffer.maxAt ? ` (${buffer.maxAt})` : ""}; on the heap that risks an OutOfMemoryError, ehcache keeps ${EHCACHE_HEAP_MB} MB in memory and spills the rest to disk.`
+        : `Open transactions never held more than ~${bufferMb} MB of changes, which fits on the heap; the memory buffer is the fastest.`,
+  });
+
+  // Twice the largest buffer on disk, in 256 MB steps, and 1 GB when unknown.
+  const bufferCacheMb = useEhcache ? (buffer ? Math.max(1024, roundUp(bufferMb * 2, 256)) : 1024) : null;
+  derive({
+    parameter: "bufferCacheMb",
+    property: "log.mining.buffer.ehcache.events.config",
+    value: bufferCacheMb,
+    formula: "ehcache ? max(1024, roundUp(max buffered MB × 2, 256)) : none",
+    inputs: [{ name: "max buffered MB", value: buffer ? bufferMb : null }],
+    terms: [],
+    reason: useEhcache ? "Disk for the events cache, with room for a peak twice the largest observed." : "Not used with the memory buffer.",
+  });
+
+  const bufferHeapMb = useEhcache ? EHCACHE_HEAP_MB : bufferMb;
+  const connectorHeapMb = roundUp(policy.connectorBaseHeapMb + bufferHeapMb * policy.bufferHeapMultiplier, 256);
+  derive({
+    parameter: "connectorHeapMb",
+    property: "JVM -Xmx",
+    value: connectorHeapMb,
+    formula: "roundUp(connectorBaseHeapMb + (memory ? max buffered MB : ehcache heap tier) × bufferHeapMultiplier, 256)",
+    inputs: [
+      { name: "policy.connectorBaseHeapMb", value: policy.connectorBaseHeapMb },
+      { name: useEhcache ? "ehcache heap tier MB" : "max buffered MB", value: bufferHeapMb },
+      { name: "policy.bufferHeapMultiplier", value: policy.bufferHeapMultiplier },
+    ],
+    terms: [],
+    reason: "Buffered events cost several times their size on the heap in object overhead, and the collector needs headroom on top.",
+  });
+
+  if (buffer && useEhcache) {
+    warn("TXN_BUFFER_LARGE",
+      `Open transactions held up to ${buffer.maxEvents} uncommitted changes (~${bufferMb} MB in the connector buffer)` +
+      `${buffer.maxAt ? ` at ${buffer.maxAt}` : ""}; the largest single transaction had ${buffer.largestTxnEvents}. ` +
+      `The default memory buffer would need that on the heap: use log.mining.buffer.type=ehcache ` +
+      `with ${bufferCacheMb} MB of cache disk and a ${connectorHeapMb} MB heap.`
+    );
+  }
+
+  // ── Initial snapshot ──
+  const snapshot = planSnapshot(r.tableStats, r.undoRetention, policy);
+  const longestTable = snapshot.tables[0];
+  derive({
+    parameter: "snapshotMode",
+    property: "snapshot.mode",
+    value: snapshot.mode,
+    formula: "snapshot minutes + safetyBufferMin > undo retention minutes ? no_data (incremental snapshots) : initial",
+    inputs: [
+      { name: "captured rows", value: snapshot.totalRows },
+      { name: "snapshot minutes (estimated)", value: snapshot.durationMinutes },
+      { name: "policy.safetyBufferMin", value: policy.safetyBufferMin },
+      { name: "undo retention minutes", value: snapshot.undoRetentionMin },
+    ],
+    terms: branchTerms(snapshot.incremental, "snapshot outlives undo", "no_data", "snapshot fits undo (or undo unknown)", "initial"),
+    reason: snapshot.incremental
+      ? "A blocking snapshot reads every table as of one SCN and would fail with ORA-01555 once the undo is gone. " +
+        "Start streaming with no_data and load the tables with incremental snapshots, which read in short key-ordered chunks."
+      : snapshot.fitsUndo === null
+        ? "Undo retention was not sampled, so the blocking snapshot could not be checked against it."
+        : "The blocking snapshot finishes inside the undo retention.",
+  });
+  derive({
+    parameter: "snapshotFetchSize",
+    property: snapshot.incremental ? "incremental.snapshot.chunk.size" : "snapshot.fetch.size",
+    value: snapshot.fetchSize,
+    formula: "clamp(floor(8 MB ÷ widest avg row length, 1000), 1000, 20000)",
+    inputs: [{ name: "widest avg row length", value: Math.max(0, ...snapshot.tables.map((t) => t.avgRowLen)) }],
+    terms: [],
+    reason: "Rows per round trip sized to move about 8 MB, so wide tables do not hold large batches in memory.",
+  });
+  derive({
+    parameter: "snapshotMaxThreads",
+    property: "snapshot.max.threads",
+    value: snapshot.maxThreads,
+    formula: "clamp(ceil(total table minutes ÷ longest table minutes), 1, min(snapshotMaxThreads, tables))",
+    inputs: [
+      { name: "total table minutes (1 thread)", value: round2(snapshot.tables.reduce((sum, t) => sum + t.minutes, 0)) },
+      { name: `longest table minutes${longestTable ? ` (${longestTable.table})` : ""}`, value: longestTable?.minutes ?? 0 },
+      { name: "captured tables", value: snapshot.tables.length },
+      { name: "policy.snapshotMaxThreads", value: policy.snapshotMaxThreads },
+    ],
+    terms: [],
+    reason: "More threads than that only wait on the longest table, which one thread reads alone." +
+      (snapshot.incremental ? " Only applies to a blocking snapshot; incremental snapshots read one chunk at a time." : ""),
+  });
+
+  if (snapshot.incremental) {
+    warn("SNAPSHOT_EXCEEDS_UNDO",
+      `A blocking initial snapshot of ${snapshot.totalRows} rows would take ~${Math.round(snapshot.durationMinutes)} min, ` +
+      `longer than the ${Math.round(snapshot.undoRetentionMin ?? 0)} min undo retention: it would fail with ORA-01555. ` +
+      `Use snapshot.mode=no_data and incremental snapshots, or raise UNDO_RETENTION (with RETENTION GUARANTEE) above ` +
+      `${Math.ceil((snapshot.durationMinutes + policy.safetyBufferMin) * 60)} s.`
+    );
+  }
+  // Streaming resumes from the snapshot SCN, so a blocking snapshot needs the
+  // archives from its start still on disk when it ends.
+  const snapshotRetentionHours = Math.ceil(snapshot.durationMinutes / 60) + archiveRetentionHours;
+  if (!snapshot.incremental && r.archiveWindowHours.samples > 0 && r.archiveWindowHours.min < snapshotRetentionHours) {
+    warn("SNAPSHOT_EXCEEDS_ARCHIVE_WINDOW",
+      `The ~${Math.round(snapshot.durationMinutes)} min initial snapshot needs ${snapshotRetentionHours}h of archives ` +
+      `when streaming starts, but the shortest observed archive window is ${r.archiveWindowHours.min.toFixed(1)}h. ` +
+      `Hold archive deletion for the duration of the snapshot.`
+    );
+  }
 
   // ── Batch sizing ──
   const captureRatio = r.schemaTableCount > 0 ? r.capturedTableCount / r.schemaTableCount : 1;
-  const batchSizeDefault = captureRatio < 0.3 ? 5000 : 10000;
-  const batchSizeMax = captureRatio < 0.3 ? 10000 : 50000;
+  const smallBatches = captureRatio < policy.smallCaptureRatio;
+  const batchSizeDefault = smallBatches ? 5000 : 10000;
+  const batchSizeMax = smallBatches ? 10000 : 50000;
+  const captureInputs = [
+    { name: "captured tables", value: r.capturedTableCount },
+    { name: "tables in schema", value: r.schemaTableCount },
+    { name: "capture ratio", value: round2(captureRatio) },
+  ];
+  for (const [parameter, value, small, large] of [
+    ["batchSizeDefault", batchSizeDefault, 5000, 10000],
+    ["batchSizeMax", batchSizeMax, 10000, 50000],
+  ] as const) {
+    derive({
+      parameter,
+      property: parameter === "batchSizeDefault" ? "log.mining.batch.size.default" : "log.mining.batch.size.max",
+      value,
+      formula: `capture ratio < smallCaptureRatio ? ${small} : ${large}`,
+      inputs: [...captureInputs, { name: "policy.smallCaptureRatio", value: policy.smallCaptureRatio }],
+      terms: branchTerms(smallBatches, `ratio < ${policy.smallCaptureRatio}`, small, `ratio >= ${policy.smallCaptureRatio}`, large),
+      reason: smallBatches
+        ? "Most mined redo belongs to tables that are not captured, so smaller batches keep each LogMiner query short."
+        : "Most mined redo is captured, so larger batches reduce round trips.",
+    });
+  }
 
   // ── Query filter mode ──
-  const queryFilterMode = captureRatio < 0.5 ? "regex" : "none";
+  const queryFilterMode = captureRatio < policy.regexFilterCaptureRatio ? "regex" : "none";
+  derive({
+    parameter: "queryFilterMode",
+    property: "log.mining.query.filter.mode",
+    value: queryFilterMode,
+    formula: "capture ratio < regexFilterCaptureRatio ? regex : none",
+    inputs: [...captureInputs, { name: "policy.regexFilterCaptureRatio", value: policy.regexFilterCaptureRatio }],
+    terms: branchTerms(queryFilterMode === "regex", `ratio < ${policy.regexFilterCaptureRatio}`, "regex", `ratio >= ${policy.regexFilterCaptureRatio}`, "none"),
+    reason: queryFilterMode === "regex"
+      ? "Filtering in the LogMiner query skips redo for uncaptured tables before it reaches the connector."
+      : "Most tables are captured, so filtering in the query would save little.",
+  });
   if (queryFilterMode === "regex") {
-    warnings.push(
+    warn("LOW_CAPTURE_RATIO",
       `Captured tables are ${(captureRatio * 100).toFixed(0)}% of schema. ` +
       `query.filter.mode=regex recommended to reduce LogMiner overhead. ` +
       `Monitor that messages still arrive after enabling.`
@@ -285,14 +977,82 @@ function computeRecommendations(r: DiagReport): Recommendations {
 
   // ── Max retries ──
   // Scale with archive file size — bigger files need more retries during archiving
-  const maxRetries = r.avgArchiveFileSizeGb > 5 ? 30 : 10;
+  const maxRetries = r.avgArchiveFileSizeGb > policy.largeArchiveFileGb ? policy.largeArchiveMaxRetries : policy.maxRetries;
+  derive({
+    parameter: "maxRetries",
+    property: "errors.max.retries",
+    value: maxRetries,
+    formula: "avg archive file GB > largeArchiveFileGb ? largeArchiveMaxRetries : maxRetries",
+    inputs: [
+      { name: "avg archive file GB", value: r.avgArchiveFileSizeGb },
+      { name: "policy.largeArchiveFileGb", value: policy.largeArchiveFileGb },
+    ],
+    terms: branchTerms(
+      r.avgArchiveFileSizeGb > policy.largeArchiveFileGb,
+      `archive files > ${policy.largeArchiveFileGb} GB`, policy.largeArchiveMaxRetries,
+      `archive files <= ${policy.largeArchiveFileGb} GB`, policy.maxRetries
+    ),
+    reason: "Large archive files take longer to write, so the connector may retry several times before a file becomes readable.",
+  });
+
+  // A physical standby has no online redo of its own to mine: the connector
+  // can only read the archives it has received.
+  const archiveLogOnlyMode = r.databaseRole === "PHYSICAL STANDBY";
+  const adg = r.standbys.filter((s) => s.activeDataGuard).map((s) => s.dbUniqueName ?? s.destName);
+  derive({
+    parameter: "archiveLogOnlyMode",
+    property: "log.mining.archive.log.only.mode",
+    value: archiveLogOnlyMode,
+    formula: "database_role = PHYSICAL STANDBY",
+    inputs: [
+      { name: "database role", value: r.databaseRole },
+      { name: "Active Data Guard standbys", value: adg.length > 0 ? adg.join(", ") : "none" },
+    ],
+    terms: branchTerms(archiveLogOnlyMode, "sampled on a standby", true, "sampled on the primary", false),
+    reason: archiveLogOnlyMode
+      ? "The sampled database is a standby: the connector can only mine the archives shipped to it, so latency follows the primary's log switches."
+      : adg.length > 0
+        ? `Mining the primary's online redo keeps latency low. To offload mining to the Active Data Guard standby (${adg.join(", ")}), sample it with \`collect\` and use archive-only mode.`
+        : "Mining the online redo logs keeps latency low; nothing in the samples requires archive-only mining.",
+  });
 
   // ── Archive lag target check ──
-  if (r.archiveLagTarget === 0 && r.switchesPerHour.min < 2) {
-    warnings.push(
-      `archive_lag_target is 0 and minimum switch rate is ${r.switchesPerHour.min}/hour. ` +
+  // A quiet thread holds back every other thread: LogMiner cannot mine past the
+  // last SCN that thread has archived, so check the slowest thread's minimum.
+  const archiveLagTargetSec = r.archiveLagTarget === 0 && slowest.switchesPerHour.min < policy.quietSwitchesPerHour
+    ? policy.archiveLagTargetSec
+    : 0;
+  derive({
+    parameter: "archiveLagTargetSec",
+    property: "ARCHIVE_LAG_TARGET",
+    value: archiveLagTargetSec,
+    formula: "archive_lag_target = 0 and min switches/h (slowest thread) < quietSwitchesPerHour ? archiveLagTargetSec : 0 (no change)",
+    inputs: [
+      { name: "current archive_lag_target", value: r.archiveLagTarget },
+      { name: `min switches/h (slowest${r.threads.length > 1 ? `, thread ${slowest.thread}` : ""})`, value: slowest.switchesPerHour.min },
+      { name: "policy.quietSwitchesPerHour", value: policy.quietSwitchesPerHour },
+      { name: "policy.archiveLagTargetSec", value: policy.archiveLagTargetSec },
+    ],
+    terms: branchTerms(archiveLagTargetSec > 0, "unset and quiet periods observed", policy.archiveLagTargetSec, "already set or never quiet", 0),
+    reason: archiveLagTargetSec > 0
+      ? "Quiet periods leave redo unarchived for long stretches; a forced switch keeps the offset SCN inside the archive window."
+      : r.archiveLagTarget > 0 ? "archive_lag_target is already set." : "Logs switch often enough even in the quietest sample.",
+  });
+  if (archiveLagTargetSec > 0) {
+    const threadNote = r.threads.length > 1 ? ` on thread ${slowest.thread}` : "";
+    warn("ARCHIVE_LAG_TARGET_UNSET",
+      `archive_lag_target is 0 and minimum switch rate${threadNote} is ${slowest.switchesPerHour.min}/hour. ` +
       `During quiet periods, long gaps without switches can stale the offset. ` +
-      `Set archive_lag_target=1800 as a safety net.`
+      `Set archive_lag_target=${archiveLagTargetSec} as a safety net.`
+    );
+  }
+
+  // ── RAC thread skew ──
+  if (r.threads.length > 1 && slowest.switchesPerHour.p95 < busiest.switchesPerHour.p95 / 2) {
+    warn("RAC_THREAD_SKEW",
+      `RAC thread skew: thread ${slowest.thread} switches ${slowest.switchesPerHour.p95}/hour at p95 ` +
+      `vs ${busiest.switchesPerHour.p95}/hour on thread ${busiest.thread}. ` +
+      `LogMiner waits for the slowest thread's redo, so mining latency and retention follow thread ${slowest.thread}.`
     );
   }
 
@@ -301,9 +1061,18 @@ function computeRecommendations(r: DiagReport): Recommendations {
   if (suppLog && Array.isArray(suppLog) && suppLog.length > 0) {
     const min = suppLog[0]?.SUPPLEMENTAL_LOG_DATA_MIN;
     if (min !== "YES") {
-      warnings.push("Minimum supplemental logging is NOT enabled. Debezium requires at least minimal supplemental logging.");
+      warn("SUPPLEMENTAL_LOG_MIN_MISSING", "Minimum supplemental logging is NOT enabled. Debezium requires at least minimal supplemental logging.");
     }
   }
+  const missingAll = r.tablesMissingAllColumnLogging;
+  if (missingAll.length > 0) {
+    const shown = missingAll.slice(0, 10).join(", ") + (missingAll.length > 10 ? `, … (${missingAll.length - 10} more)` : "");
+    warn("SUPPLEMENTAL_LOG_ALL_MISSING",
+      `${missingAll.length} of ${r.capturedTableCount} captured table(s) lack ALL COLUMNS supplemental logging: ${shown}. ` +
+      `Update and delete events from these tables will have incomplete before-images. ` +
+      `Run dbz-supplemental-logging.sql before starting the connector.`
+    );
+  }
 
   // ── Archive window sanity check (ORA-00308 risk) ──
   // archive_window_hours reflects how long archives are *actually* kept on
@@ -312,7 +1081,7 @@ function computeRecommendations(r: DiagReport): Recommendations {
   // the current RMAN / cleanup policy is too aggressive and Debezium would hit
   // ORA-00308 today even before any tuning.
   if (r.archiveWindowHours.samples > 0 && r.archiveWindowHours.min < archiveRetentionHours) {
-    warnings.push(
+    warn("ORA_00308_RISK",
       `ORA-00308 RISK: observed minimum archive window is ${r.archiveWindowHours.min.toFixed(1)}h ` +
       `but recommended retention is ${archiveRetentionHours}h. ` +
       `The current cleanup policy is deleting archives too soon — LogMiner will lose files ` +
@@ -320,11 +1089,52 @@ function computeRecommendations(r: DiagReport): Recommendations {
     );
   }
 
+  // ── Multitenant ──
+  // Redo and archive metrics are the same from any container, but the table
+  // checks and DML counts only see the container the sampler ran in.
+  if (r.container.cdb && r.container.containerName === CDB_ROOT) {
+    const pdbs = r.container.pdbs.length > 0 ? ` (PDBs: ${r.container.pdbs.join(", ")})` : "";
+    warn("CDB_ROOT_CONNECTION",
+      `Sampled from CDB$ROOT of a multitenant database${pdbs}. Redo and archive figures are valid, but the ` +
+      `captured-table checks, LOB and key checks and topic estimates looked at the root, not the PDB holding ` +
+      `${r.captureSchema}. Rerun setup with ORACLE_SERVICE set to the PDB service.`
+    );
+  }
+
+  // ── Data Guard ──
+  // The retention covers the p95 lag; an outage beyond it either fills the
+  // disk (APPLIED ON ALL STANDBY keeps the archives) or breaks the standby.
+  for (const s of r.standbys) {
+    const worst = Math.max(s.transportLagHours.max, s.applyLagHours.max);
+    if (worst > archiveRetentionHours) {
+      warn("STANDBY_LAG",
+        `Standby ${s.dbUniqueName ?? s.destName} (${s.destName}) fell ${worst.toFixed(1)}h behind ` +
+        `(transport ${s.transportLagHours.max}h, apply ${s.applyLagHours.max}h max), beyond the ${archiveRetentionHours}h retention. ` +
+        `The APPLIED ON ALL STANDBY deletion policy keeps those archives, so plan disk beyond ~${Math.round(retentionDiskGb)} GB ` +
+        `for such outages; deleting them instead forces a standby rebuild.`
+      );
+    }
+  }
+
+  // ── Sample completeness ──
+  // Gaps usually mean the sampler job failed or the collector was down; any
+  // peak that fell inside one is missing from every number above.
+  const gaps = r.completeness.gaps;
+  if (gaps.length > 0) {
+    const gapHours = gaps.reduce((sum, g) => sum + g.hours, 0);
+    warn("SAMPLE_GAPS",
+      `${gaps.length} gap(s) totalling ${gapHours.toFixed(1)}h in the sample timeline ` +
+      `(${r.completeness.coveragePct}% of expected samples). Peaks during the gaps are not reflected ` +
+      `in these recommendations — run \`status\` to see why sampling stopped.`
+    );
+  }
+
   return {
     redoLogSizeGb: Math.round(redoLogSizeGb * 10) / 10,
     redoLogGroups,
     archiveRetentionHours,
     archiveRetentionDiskGb: Math.round(retentionDiskGb),
+    fraForecast,
     lobEnabled,
     lobReason,
     transactionRetentionMs: txnRetentionMs,
@@ -333,7 +1143,20 @@ function computeRecommendations(r: DiagReport): Recommendations {
     batchSizeMax,
     maxRetries,
     queryFilterMode,
-    archiveLogOnlyMode: false,
+    archiveLogOnlyMode,
+    bufferType,
+    bufferCacheMb,
+    connectorHeapMb,
+    snapshot,
+    archiveLagTargetSec,
+    messageKeyColumns,
+    slowestThread: r.threads.length > 1 ? slowest.thread : null,
+    drivers: {
+      redoLogSize: redoLogSizeDriver,
+      archiveRetention: archiveRetentionDriver,
+      transactionRetention: txnRetentionMs > policy.minTxnRetentionMs ? r.loadProfile.p95Windows.oldestTxn : null,
+    },
+    derivations,
     warnings,
   };
 }
@@ -352,6 +1175,24 @@ function generateMarkdown(r: DiagReport): string {
   ln(`Schema: ${r.captureSchema}, Table pattern: \`${r.captureTablePattern}\``);
   ln();
 
+  ln("## Data Completeness");
+  ln();
+  const c = r.completeness;
+  ln(`| First sample | Last sample | Runs | Expected | Coverage |`);
+  ln(`|--------------|-------------|------|----------|----------|`);
+  ln(`| ${c.firstSample} | ${c.lastSample} | ${c.actualRuns} | ${c.expectedRuns} | ${c.coveragePct}% |`);
+  ln();
+  if (c.gaps.length > 0) {
+    ln("| Gap from | Gap to | Hours | Missed samples |");
+    ln("|----------|--------|-------|----------------|");
+    for (const g of c.gaps) {
+      ln(`| ${g.from} | ${g.to} | ${g.hours} | ${g.missedSamples} |`);
+    }
+  } else {
+    ln("No gaps in the sample timeline.");
+  }
+  ln();
+
   ln("## Observed Metrics");
   ln();
   ln("### Log Switches (per hour)");
@@ -383,19 +1224,119 @@ function generateMarkdown(r: DiagReport): string {
   ln(fmtStats(r.archiveDiskUsedGb));
   ln();
 
+  if (r.fra) {
+    ln("### Fast Recovery Area");
+    ln();
+    ln("| Metric | Value |");
+    ln("|--------|-------|");
+    ln(`| Destination | ${r.fra.destination ?? "unknown"} |`);
+    ln(`| Space limit | ${r.fra.spaceLimitGb} GB |`);
+    ln(`| Used | ${r.fra.spaceUsedGb} GB (${((r.fra.spaceUsedGb / r.fra.spaceLimitGb) * 100).toFixed(0)}%) |`);
+    ln(`| Reclaimable | ${r.fra.spaceReclaimableGb} GB |`);
+    ln(`| Archived logs | ${r.fra.archivedLogGb} GB |`);
+    ln(`| Occupancy trend | ${r.fra.growthGbPerDay >= 0 ? "+" : ""}${r.fra.growthGbPerDay} GB/day over ${r.fra.samples} samples |`);
+    ln();
+  }
+
+  if (r.standbys.length > 0) {
+    ln("### Data Guard Standbys");
+    ln();
+    ln("| Destination | Standby | Mode | Transport lag p95 / max (h) | Apply lag p95 / max (h) |");
+    ln("|-------------|---------|------|-----------------------------|-------------------------|");
+    for (const s of r.standbys) {
+      ln(`| ${s.destName} | ${s.dbUniqueName ?? s.destination ?? "?"} | ${s.databaseMode ?? "?"}${s.activeDataGuard ? " (Active Data Guard)" : ""} | ` +
+        `${s.transportLagHours.p95} / ${s.transportLagHours.max} | ${s.applyLagHours.p95} / ${s.applyLagHours.max} |`);
+    }
+    ln();
+  }
+
+  ln("## Load Profile");
+  ln();
+  if (r.loadProfile.peakWindows.length > 0) {
+    ln("### Peak Windows");
+    ln();
+    ln("| Window | Switches/h | Archive GB/h | Longest txn (min) |");
+    ln("|--------|------------|--------------|-------------------|");
+    for (const w of r.loadProfile.peakWindows) {
+      ln(`| ${w.label} | ${w.switchesPerHour} | ${w.archiveGbPerHour} | ${w.oldestTxnMinutes} |`);
+    }
+    ln();
+  } else {
+    ln("No distinct peak window — load is spread evenly across the day.");
+    ln();
+  }
+
+  ln("### By Hour of Day (database time)");
+  ln();
+  ln(fmtBuckets(r.loadProfile.hourly));
+  ln();
+
+  ln("### By Day of Week");
+  ln();
+  ln(fmtBuckets(r.loadProfile.weekday));
+  ln();
+
+  if (r.threads.length > 1) {
+    ln("### Redo Threads (RAC)");
+    ln();
+    ln("| Thread | Groups | Size (GB) | Switches/h avg | Switches/h p95 | Switches/h min | Archive GB/h avg | Archive GB/h p95 |");
+    ln("|--------|--------|-----------|----------------|----------------|----------------|------------------|------------------|");
+    for (const t of r.threads) {
+      const mark = t.thread === rec.slowestThread ? " (slowest)" : "";
+      ln(`| ${t.thread}${mark} | ${t.redoLogGroups} | ${t.redoLogSizeGb.toFixed(1)} | ${t.switchesPerHour.avg} | ${t.switchesPerHour.p95} | ${t.switchesPerHour.min} | ${t.archiveGbPerHour.avg} | ${t.archiveGbPerHour.p95} |`);
+    }
+    ln();
+  }
+
+  ln("## Long-Running Transactions");
+  ln();
+  if (r.transactions.longest.length > 0) {
+    ln("LogMiner keeps every archive log from the start of the oldest open transaction, so these sessions " +
+      "set `transaction.retention.ms` and the archive retention below.");
+    ln();
+    ln("### Top Offenders");
+    ln();
+    ln("| Started | Max age (min) | Inst/SID,Serial | User | Program | Module | Machine | SQL IDs | Undo records |");
+    ln("|---------|---------------|-----------------|------|---------|--------|---------|---------|--------------|");
+    for (const t of r.transactions.longest) {
+      ln(`| ${t.startTime} | ${t.maxAgeMins} | ${t.instId}/${t.sid},${t.serial} | ${t.username ?? ""} | ${t.program ?? ""} | ${t.module ?? ""} | ${t.machine ?? ""} | ${t.sqlIds.join(", ")} | ${t.maxUsedUrec} |`);
+    }
+    ln();
+    ln("### By Source");
+    ln();
+    ln("| User | Program | Module | Transactions | Max age (min) | Held the oldest txn (samples) |");
+    ln("|------|---------|--------|--------------|---------------|-------------------------------|");
+    for (const s of r.transactions.sources) {
+      ln(`| ${s.username ?? ""} | ${s.program ?? ""} | ${s.module ?? ""} | ${s.transactions} | ${s.maxAgeMins} | ${s.oldestInSamples} |`);
+    }
+  } else {
+    ln("No transaction detail collected. Samples from before transaction tracking only record the oldest age.");
+  }
+  ln();
+
   ln("## Current Configuration");
   ln();
   ln(`| Setting | Value |`);
   ln(`|---------|-------|`);
-  ln(`| Redo log groups | ${r.redoLogConfig.length} |`);
+  ln(`| Redo log groups | ${r.redoLogConfig.length}${r.threads.length > 1 ? ` across ${r.threads.length} threads` : ""} |`);
   if (r.redoLogConfig.length > 0) {
     ln(`| Redo log size | ${(r.redoLogConfig[0].BYTES / (1024 ** 3)).toFixed(1)} GB |`);
   }
   ln(`| Captured tables | ${r.capturedTableCount} of ${r.schemaTableCount} (${r.schemaTableCount > 0 ? ((r.capturedTableCount / r.schemaTableCount) * 100).toFixed(0) : 0}%) |`);
   ln(`| LOB columns in captured tables | ${r.lobColumns?.length ?? 0} |`);
+  ln(`| Tables missing ALL COLUMNS logging | ${r.tablesMissingAllColumnLogging.length} |`);
+  ln(`| Columns with unsupported types | ${r.unsupportedColumns.length} |`);
+  ln(`| Tables without a primary key | ${r.keylessTables.length} |`);
   ln(`| archive_lag_target | ${r.archiveLagTarget} |`);
   ln(`| max_string_size | ${r.maxStringSize} |`);
+  ln(`| Architecture | ${r.container.cdb ? `CDB, sampled in ${r.container.containerName ?? "unknown container"}` : "non-CDB"} |`);
   ln();
+  if (r.container.cdb) {
+    ln(`Multitenant: Debezium connects to CDB$ROOT as a common user (C##...) and mines ` +
+      `\`database.pdb.name\`=${r.container.pdbName ?? "<PDB_NAME>"}. Create the connector user in CDB$ROOT ` +
+      "with CONTAINER=ALL; run `preflight` to generate its grants.");
+    ln();
+  }
 
   if (r.lobColumns && r.lobColumns.length > 0) {
     ln("### LOB Columns in Captured Tables");
@@ -408,40 +1349,171 @@ function generateMarkdown(r: DiagReport): string {
     ln();
   }
 
+  if (r.unsupportedColumns.length > 0) {
+    ln("### Unsupported Column Types");
+    ln();
+    ln("| Table | Column | Type | Category |");
+    ln("|-------|--------|------|----------|");
+    for (const col of r.unsupportedColumns) {
+      ln(`| ${col.TABLE_NAME} | ${col.COLUMN_NAME} | ${col.DATA_TYPE} | ${col.CATEGORY} |`);
+    }
+    ln();
+  }
+
+  if (r.keylessTables.length > 0) {
+    ln("### Tables Without a Primary Key");
+    ln();
+    ln("| Table | Candidate unique index | Key columns |");
+    ln("|-------|------------------------|-------------|");
+    for (const t of r.keylessTables) {
+      ln(`| ${t.table} | ${t.candidateIndex ?? "none"} | ${t.keyColumns.length > 0 ? t.keyColumns.join(", ") : "— add a primary key"} |`);
+    }
+    ln();
+    if (rec.messageKeyColumns) {
+      ln(`Proposed \`message.key.columns\`: \`${rec.messageKeyColumns}\``);
+      ln();
+    }
+  }
+
+  if (r.tablesMissingAllColumnLogging.length > 0) {
+    ln("### Tables Missing ALL COLUMNS Supplemental Logging");
+    ln();
+    ln("Without it, LogMiner only records changed columns and the key, so before-images are incomplete. " +
+      "The DDL is in `dbz-supplemental-logging.sql`.");
+    ln();
+    ln("| Table |");
+    ln("|-------|");
+    for (const t of r.tablesMissingAllColumnLogging) {
+      ln(`| ${t} |`);
+    }
+    ln();
+  }
+
+  ln("## Kafka Topic Sizing");
+  ln();
+  if (r.topics.length > 0) {
+    ln(`Estimated from sampled DML counts (DBA_TAB_MODIFICATIONS) and AVG_ROW_LEN. ` +
+      `Event size assumes before + after images plus ~400 bytes of envelope, schemas in a registry. ` +
+      `Storage is at ${TOPIC_RETENTION_DAYS} days retention × replication factor ${TOPIC_REPLICATION_FACTOR}.`);
+    ln();
+    ln("| Table | Events/s avg | Events/s p95 | Event size (B) | KB/s avg | KB/s p95 | Partitions | GB/day | GB retained |");
+    ln("|-------|--------------|--------------|----------------|----------|----------|------------|--------|-------------|");
+    for (const t of r.topics) {
+      ln(`| ${t.table} | ${t.eventsPerSec} | ${t.peakEventsPerSec} | ${t.eventBytes} | ${(t.bytesPerSec / 1024).toFixed(1)} | ${(t.peakBytesPerSec / 1024).toFixed(1)} | ${t.partitions} | ${t.storageGbPerDay} | ${t.retainedStorageGb} |`);
+    }
+    const sum = (f: (t: TopicEstimate) => number) => r.topics.reduce((acc, t) => acc + f(t), 0);
+    ln(`| **Total** | ${sum((t) => t.eventsPerSec).toFixed(2)} | | | ${(sum((t) => t.bytesPerSec) / 1024).toFixed(1)} | | ${sum((t) => t.partitions)} | ${sum((t) => t.storageGbPerDay).toFixed(2)} | ${sum((t) => t.retainedStorageGb).toFixed(2)} |`);
+  } else {
+    ln("No per-table DML samples. The sampler needs SELECT on DBA_TAB_MODIFICATIONS (and ideally ANALYZE ANY to flush monitoring info).");
+  }
+  ln();
+
   ln("## Recommendations");
   ln();
 
   ln("### Redo Logs");
-  ln(`- Size: **${rec.redoLogSizeGb} GB** per group`);
-  ln(`- Groups: **${rec.redoLogGroups}**`);
+  ln(`- Size: **${rec.redoLogSizeGb} GB** per group${drivenBy(rec.drivers.redoLogSize)}`);
+  ln(`- Groups: **${rec.redoLogGroups}**${r.threads.length > 1 ? " per thread" : ""}`);
   ln();
+  ln(derivationDetails(rec, "redoLogSizeGb", "redoLogGroups"));
 
   ln("### Archive Retention");
-  ln(`- Retention: **${rec.archiveRetentionHours} hours**`);
+  ln(`- Retention: **${rec.archiveRetentionHours} hours**${drivenBy(rec.drivers.archiveRetention)}`);
   ln(`- Estimated disk needed: **~${rec.archiveRetentionDiskGb} GB**`);
+  if (r.fra && rec.fraForecast) {
+    const f = rec.fraForecast;
+    ln(`- FRA room for archives: **${f.archiveCapacityGb} GB** of ${r.fra.spaceLimitGb} GB — ` +
+      `projected use ${f.projectedUsedPct}% ${f.retentionFits ? "✓ OK" : `⚠ above the ${r.policy.values.fraAlertPct}% alert level`}`);
+    ln(`- FRA full in: ${f.daysToFull === null ? "not growing" : f.daysToFull === 0 ? "**already full at this retention**" : `~${f.daysToFull} days at ${r.fra.growthGbPerDay} GB/day`}`);
+  }
+  if (hasStandby(r)) {
+    ln("- RMAN deletion policy: `CONFIGURE ARCHIVELOG DELETION POLICY TO APPLIED ON ALL STANDBY;` (unapplied archives are kept past the retention)");
+  }
   ln(`- RMAN delete clause: \`delete noprompt archivelog all completed before 'SYSDATE-${rec.archiveRetentionHours}/24';\``);
   ln();
+  ln(derivationDetails(rec, "archiveRetentionHours", "archiveRetentionDiskGb"));
 
   ln("### LOB Support");
   ln(`- Enabled: **${rec.lobEnabled}**`);
   ln(`- Reason: ${rec.lobReason}`);
   ln();
+  ln(derivationDetails(rec, "lobEnabled"));
 
   ln("### Debezium Tuning");
-  ln(`- transaction.retention.ms: **${rec.transactionRetentionMs}** (${rec.transactionRetentionMs / 60000} min)`);
+  ln(`- transaction.retention.ms: **${rec.transactionRetentionMs}** (${rec.transactionRetentionMs / 60000} min)${drivenBy(rec.drivers.transactionRetention)}`);
   ln(`- heartbeat.interval.ms: **${rec.heartbeatIntervalMs}**`);
+  if (r.heartbeat) {
+    ln(`- heartbeat.action.query: \`${r.heartbeat.actionQuery}\``);
+    ln(`- signal.data.collection: **${r.heartbeat.signalDataCollection}** (tables in \`dbz-heartbeat-signal.sql\`)`);
+  }
   ln(`- batch.size.default: **${rec.batchSizeDefault}**`);
   ln(`- batch.size.max: **${rec.batchSizeMax}**`);
   ln(`- errors.max.retries: **${rec.maxRetries}**`);
   ln(`- query.filter.mode: **${rec.queryFilterMode}**`);
   ln(`- archive.log.only.mode: **${rec.archiveLogOnlyMode}**`);
   ln();
+  ln(derivationDetails(rec, "transactionRetentionMs", "heartbeatIntervalMs", "batchSizeDefault", "batchSizeMax",
+    "maxRetries", "queryFilterMode", "archiveLogOnlyMode", "messageKeyColumns"));
+
+  ln("### Transaction Buffer and Memory");
+  const buffer = r.transactionBuffer;
+  if (buffer) {
+    ln(`- Buffered changes (undo records of open transactions): p95 **${buffer.p95Events}**, max **${buffer.maxEvents}**${buffer.maxAt ? ` at ${buffer.maxAt}` : ""}`);
+    ln(`- Largest single transaction: **${buffer.largestTxnEvents}** changes`);
+    ln(`- Estimated buffer: p95 **${buffer.p95Mb} MB**, max **${buffer.maxMb} MB** (~${buffer.eventBytes} bytes per event; undo held at the max: ${buffer.undoMbAtMax} MB)`);
+  } else {
+    ln("- No undo usage sampled: the buffer size is unknown. Rerun setup so the sampler records it.");
+  }
+  ln(`- log.mining.buffer.type: **${rec.bufferType}**${rec.bufferCacheMb !== null ? ` (events cache disk: ${rec.bufferCacheMb} MB)` : ""}`);
+  ln(`- Connector JVM heap: **-Xmx${rec.connectorHeapMb}m**`);
+  ln();
+  ln(derivationDetails(rec, "bufferType", "bufferCacheMb", "connectorHeapMb"));
+
+  ln("### Initial Snapshot");
+  const snap = rec.snapshot;
+  if (snap.tables.length === 0) {
+    ln("- No captured tables found.");
+  } else {
+    ln(`- Volume: **${snap.totalRows}** rows, ${snap.totalSegmentGb} GB of table segments`);
+    ln(`- Kafka: **~${snap.kafkaGb} GB** of snapshot events (${snap.kafkaStorageGb} GB stored at replication factor ${TOPIC_REPLICATION_FACTOR})`);
+    ln(`- Estimated duration: **~${Math.round(snap.durationMinutes)} min** with ${snap.maxThreads} thread(s)`);
+    ln(`- Undo retention: ${snap.undoRetentionMin === null ? "not sampled" : `${Math.round(snap.undoRetentionMin)} min${r.undoRetention?.guaranteed ? " (guaranteed)" : ""} ${snap.fitsUndo ? "✓ OK" : "⚠ TOO SHORT (ORA-01555 risk)"}`}`);
+    ln(`- snapshot.mode: **${snap.mode}**${snap.incremental ? " + incremental snapshots (execute-snapshot signal)" : ""}`);
+    ln(`- ${snap.incremental ? "incremental.snapshot.chunk.size" : "snapshot.fetch.size"}: **${snap.fetchSize}**`);
+    if (!snap.incremental) {
+      ln(`- snapshot.max.threads: **${snap.maxThreads}**`);
+      ln(`- Archive retention while the snapshot runs: **${Math.ceil(snap.durationMinutes / 60) + rec.archiveRetentionHours} hours**`);
+    }
+    ln();
+    ln("| Table | Rows | Segment MB | Avg row | Minutes (1 thread) |");
+    ln("|-------|------|------------|---------|--------------------|");
+    for (const t of snap.tables.slice(0, 10)) {
+      ln(`| ${t.table} | ${t.rows}${t.estimated ? " (est.)" : ""} | ${t.segmentMb} | ${t.avgRowLen} | ${t.minutes} |`);
+    }
+    if (snap.tables.length > 10) ln(`| … ${snap.tables.length - 10} more | | | | |`);
+  }
+  ln();
+  ln(derivationDetails(rec, "snapshotMode", "snapshotFetchSize", "snapshotMaxThreads"));
+
+  ln("### Policy");
+  ln();
+  ln(r.policy.source
+    ? `Thresholds from \`${r.policy.source}\`; ${r.policy.overridden.length} override(s) shown in bold.`
+    : "Default thresholds (no policy file). Override any of them with `report --policy <file>`.");
+  ln();
+  ln("| Setting | Value | Default | Meaning |");
+  ln("|---------|-------|---------|---------|");
+  for (const key of Object.keys(POLICY_RULES) as Array<keyof Policy>) {
+    const value = r.policy.overridden.includes(key) ? `**${r.policy.values[key]}**` : String(r.policy.values[key]);
+    ln(`| ${key} | ${value} | ${DEFAULT_POLICY[key]} | ${POLICY_RULES[key].description} |`);
+  }
+  ln();
 
   if (rec.warnings.length > 0) {
     ln("## ⚠ Warnings");
     ln();
     for (const w of rec.warnings) {
-      ln(`- ${w}`);
+      ln(`- \`${w.code}\` ${w.message}`);
     }
     ln();
   }
@@ -449,89 +1521,127 @@ function generateMarkdown(r: DiagReport): string {
   ln("## RMAN Script (recommended)");
   ln();
   ln("```bash");
-  ln("# Add disk safety check to archive cleanup script:");
-  ln(`USAGE=$(df --output=pcent /orafra | tail -1 | tr -dc '0-9')`);
-  ln(`if [ "$USAGE" -gt 85 ]; then`);
-  ln(`  # Emergency: shorter retention to protect database`);
-  ln(`  delete noprompt archivelog all completed before 'SYSDATE-2/24';`);
-  ln(`else`);
-  ln(`  # Normal: recommended retention`);
-  ln(`  delete noprompt archivelog all completed before 'SYSDATE-${rec.archiveRetentionHours}/24';`);
-  ln(`fi`);
+  for (const line of generateCleanupScript(r)) ln(line);
   ln("```");
   ln();
 
-  if (r.archiveLagTarget === 0 && r.switchesPerHour.min < 2) {
+  if (rec.archiveLagTargetSec > 0) {
     ln("## Oracle Parameter Change");
     ln();
     ln("```sql");
-    ln("ALTER SYSTEM SET ARCHIVE_LAG_TARGET = 1800 SCOPE=BOTH;");
+    ln(`ALTER SYSTEM SET ARCHIVE_LAG_TARGET = ${rec.archiveLagTargetSec} SCOPE=BOTH SID='*';`);
     ln("```");
     ln();
+    ln(derivationDetails(rec, "archiveLagTargetSec"));
   }
 
   return lines.join("\n");
 }
 
-function generateEnvSnippet(rec: Recommendations, r: DiagReport): string {
+// Archive cleanup with a space check against the real destination: the FRA
+// usage Oracle reports when there is one (works for ASM too), otherwise df
+// on the first file-system archive destination.
+function generateCleanupScript(r: DiagReport): string[] {
   const lines: string[] = [];
   const ln = (s = "") => lines.push(s);
+  const policy = r.policy.values;
+  const fsDest = r.archiveDestinations.find((d: any) => typeof d.DESTINATION === "string" && d.DESTINATION.startsWith("/"));
+
+  if (r.fra) {
+    ln(`# Archive cleanup with an FRA space check (${r.fra.destination ?? "db_recovery_file_dest"}, ${r.fra.spaceLimitGb} GB)`);
+    ln(`USAGE=$(sqlplus -s / as sysdba <<'SQL' | tr -dc '0-9'`);
+    ln("SET HEADING OFF FEEDBACK OFF PAGESIZE 0");
+    ln("SELECT ROUND((space_used - space_reclaimable) * 100 / space_limit) FROM v$recovery_file_dest;");
+    ln("SQL");
+    ln(")");
+  } else if (fsDest) {
+    ln(`# Archive cleanup with a disk space check (${fsDest.DEST_NAME})`);
+    ln(`USAGE=$(df --output=pcent ${fsDest.DESTINATION} | tail -1 | tr -dc '0-9')`);
+  } else {
+    ln("# Archive cleanup with a disk space check");
+    ln("# No FRA or file-system archive destination was found: replace /orafra with yours.");
+    ln(`USAGE=$(df --output=pcent /orafra | tail -1 | tr -dc '0-9')`);
+  }
+  ln(`if [ "$USAGE" -gt ${policy.fraAlertPct} ]; then`);
+  ln("  # Emergency: shorter retention to protect the database; LogMiner may lose files it still needs");
+  ln(`  HOURS=${policy.fraEmergencyRetentionHours}`);
+  ln("else");
+  ln("  # Normal: recommended retention");
+  ln(`  HOURS=${r.recommendations.archiveRetentionHours}`);
+  ln("fi");
+  ln("rman target / <<RMAN");
+  if (hasStandby(r)) {
+    ln("# Archives a standby has not applied are skipped, even in an emergency");
+    ln("CONFIGURE ARCHIVELOG DELETION POLICY TO APPLIED ON ALL STANDBY;");
+  }
+  ln("delete noprompt archivelog all completed before 'SYSDATE-${HOURS}/24';");
+  ln("RMAN");
 
-  ln("# ============================================================================");
-  ln(`# Debezium Oracle CDC — Recommended Configuration`);
-  ln(`# Generated: ${new Date().toISOString()}`);
-  ln(`# Based on ${r.samplingDurationHours.toFixed(1)} hours of diagnostic sampling`);
-  ln(`# Schema: ${r.captureSchema}, Tables: ${r.captureTablePattern}`);
-  ln("# ============================================================================");
-  ln();
+  return lines;
+}
 
-  ln("# --- Core ---");
-  ln(`DEBEZIUM_SOURCE_ORACLE_LOB_ENABLED=${rec.lobEnabled}`);
-  ln(`DEBEZIUM_SOURCE_LOG_MINING_ARCHIVE_LOG_ONLY_MODE=${rec.archiveLogOnlyMode}`);
-  ln("DEBEZIUM_SOURCE_LOG_MINING_STRATEGY=online_catalog");
-  ln("DEBEZIUM_SOURCE_LOG_MINING_BUFFER_TYPE=ehcache");
-  ln(`DEBEZIUM_SOURCE_SCHEMA_INCLUDE_LIST=${r.captureSchema}`);
-  ln(`DEBEZIUM_SOURCE_TABLE_INCLUDE_LIST=${r.captureSchema}\\\\.${r.captureTablePattern}`);
-  ln("DEBEZIUM_SOURCE_SNAPSHOT_MODE=no_data");
-  ln("DEBEZIUM_SOURCE_INCLUDE_SCHEMA_CHANGES=false");
-  ln();
+// Primaries with a standby destination, and standbys themselves.
+function hasStandby(r: DiagReport): boolean {
+  return r.standbys.length > 0 || r.databaseRole !== "PRIMARY";
+}
 
-  ln("# --- Transaction handling ---");
-  ln(`DEBEZIUM_SOURCE_LOG_MINING_TRANSACTION_RETENTION_MS=${rec.transactionRetentionMs}`);
-  ln();
+// Null when nothing is missing, so no script is written.
+function generateSupplementalLoggingSql(r: DiagReport): string | null {
+  const minMissing = r.recommendations.warnings.some((w) => w.code === "SUPPLEMENTAL_LOG_MIN_MISSING");
+  if (!minMissing && r.tablesMissingAllColumnLogging.length === 0) return null;
 
-  ln("# --- Heartbeat ---");
-  ln(`DEBEZIUM_SOURCE_HEARTBEAT_INTERVAL_MS=${rec.heartbeatIntervalMs}`);
-  ln(`DEBEZIUM_SOURCE_HEARTBEAT_ACTION_QUERY="UPDATE ${r.captureSchema}.<TABLE> SET <col> = <col> WHERE ROWNUM = 1"`);
-  ln();
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+
+  ln("-- ============================================================================");
+  ln(`-- Supplemental logging for Debezium capture of ${r.captureSchema} (${r.captureTablePattern})`);
+  ln(`-- Generated: ${new Date().toISOString()}`);
+  ln("-- Run as a user with ALTER DATABASE / ALTER ANY TABLE (usually SYS).");
+  ln("-- ============================================================================");
 
-  ln("# --- Performance ---");
-  ln(`DEBEZIUM_SOURCE_LOG_MINING_BATCH_SIZE_DEFAULT=${rec.batchSizeDefault}`);
-  ln(`DEBEZIUM_SOURCE_LOG_MINING_BATCH_SIZE_MAX=${rec.batchSizeMax}`);
-  if (rec.queryFilterMode !== "none") {
-    ln(`DEBEZIUM_SOURCE_LOG_MINING_QUERY_FILTER_MODE=${rec.queryFilterMode}`);
+  if (minMissing) {
+    ln();
+    ln("-- Database-level minimal supplemental logging");
+    ln("ALTER DATABASE ADD SUPPLEMENTAL LOG DATA;");
   }
-  ln();
 
-  ln("# --- Error handling ---");
-  ln(`DEBEZIUM_SOURCE_ERRORS_MAX_RETRIES=${rec.maxRetries}`);
-  ln("DEBEZIUM_SOURCE_ERRORS_RETRY_DELAY_INITIAL_MS=1000");
-  ln("DEBEZIUM_SOURCE_ERRORS_RETRY_DELAY_MAX_MS=30000");
+  if (r.tablesMissingAllColumnLogging.length > 0) {
+    ln();
+    ln("-- Table-level ALL COLUMNS logging (full before-images)");
+    for (const t of r.tablesMissingAllColumnLogging) {
+      ln(`ALTER TABLE ${r.captureSchema}.${t} ADD SUPPLEMENTAL LOG DATA (ALL) COLUMNS;`);
+    }
+  }
   ln();
 
-  ln("# --- Offset & flush ---");
-  ln("DEBEZIUM_SOURCE_OFFSET_FLUSH_INTERVAL_MS=10000");
-  ln();
+  return lines.join("\n");
+}
+
+function generateHeartbeatSql(r: DiagReport, heartbeat: HeartbeatTables): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+  const connectorUser = r.container.cdb ? "<C##CONNECTOR_USER>" : "<CONNECTOR_USER>";
 
-  ln("# ============================================================================");
-  ln("# DBA actions required:");
-  ln(`# 1. Redo logs: ${rec.redoLogGroups} groups x ${rec.redoLogSizeGb}GB`);
-  ln(`# 2. Archive retention: ${rec.archiveRetentionHours} hours (SYSDATE-${rec.archiveRetentionHours}/24)`);
-  ln(`#    Estimated disk needed: ~${rec.archiveRetentionDiskGb}GB`);
-  if (r.archiveLagTarget === 0) {
-    ln("# 3. Set ARCHIVE_LAG_TARGET=1800");
+  ln("-- ============================================================================");
+  ln(`-- Debezium heartbeat and signaling tables in ${r.captureSchema}`);
+  ln(`-- Generated: ${new Date().toISOString()}`);
+  ln(`-- Run as ${r.captureSchema} or a user with CREATE ANY TABLE${r.container.cdb ? `, in PDB ${r.container.pdbName ?? "<PDB_NAME>"}` : ""}.`);
+  ln(`-- Replace ${connectorUser} with the connector's database user.`);
+  ln("-- ============================================================================");
+
+  for (const s of heartbeatTableStatements(r.captureSchema, connectorUser)) {
+    ln();
+    ln(`-- ${s.comment}`);
+    ln(`${s.sql};`);
+    if (s.sql.startsWith("INSERT")) ln("COMMIT;");
   }
-  ln("# ============================================================================");
+
+  ln();
+  ln("-- Start an incremental snapshot of a table (while the connector is streaming):");
+  ln(`-- INSERT INTO ${heartbeat.signalTable} (id, type, data) VALUES ('snapshot-1', 'execute-snapshot',`);
+  ln(`--   '{"data-collections": ["${heartbeat.signalDataCollection.replace(/[^.]+$/, "<TABLE>")}"], "type": "incremental"}');`);
+  ln("-- COMMIT;");
+  ln();
 
   return lines.join("\n");
 }
@@ -539,3 +1649,34 @@ function generateEnvSnippet(rec: Recommendations, r: DiagReport): string {
 function fmtStats(s: MetricStats): string {
   return `| Metric | Value |\n|--------|-------|\n| Min | ${s.min} |\n| Avg | ${s.avg} |\n| P95 | ${s.p95} |\n| Max | ${s.max} |`;
 }
+
+function fmtBuckets(buckets: LoadBucket[]): string {
+  const rows = buckets
+    .filter((b) => b.samples > 0)
+    .map((b) => `| ${b.label} | ${b.switchesPerHour} | ${b.archiveGbPerHour} | ${b.oldestTxnMinutes} | ${b.samples} |`);
+  return ["| Period | Switches/h avg | Archive GB/h avg | Longest txn (min) | Samples |", "|--------|----------------|------------------|-------------------|---------|", ...rows].join("\n");
+}
+
+// Collapsed on GitHub and most markdown viewers, so the numbers stay readable.
+function derivationDetails(rec: Recommendations, ...parameters: string[]): string {
+  const blocks: string[] = [];
+  for (const parameter of parameters) {
+    const d = findDerivation(rec.derivations, parameter);
+    if (!d) continue;
+    blocks.push(
+      `<details><summary>Derivation: ${d.property ?? d.parameter}</summary>`,
+      "",
+      "```",
+      ...formatDerivation(d),
+      "```",
+      "",
+      "</details>",
+      ""
+    );
+  }
+  return blocks.join("\n");
+}
+
+function drivenBy(window: string | null): string {
+  return window ? ` — driven by ${window}` : "";
+}
@@ -0,0 +1,574 @@
+import oracledb from "oracledb";
+import { queryRows } from "./db";
+import { CURRENT_INCARNATION, DATE_TIME_FORMAT } from "./common";
+
+const SAMPLE_TABLE = "DBZ_DIAG_SAMPLES";
+const TXN_TABLE = "DBZ_DIAG_TXN_DETAIL";
+
+export interface SamplerContext {
+  // A SQL*Plus substitution variable in scripts written by setup --emit-sql
+  intervalMin: number | string;
+  schema: string;
+  tablePattern: string;
+}
+
+export interface SamplerMetric {
+  name: string;
+  comment: string;
+  expr: string;
+  from: (ctx: SamplerContext) => string;
+  // Keyed metrics produce one row per key (e.g. per redo thread), stored as
+  // "<name>#<key>" so the sample table layout stays the same.
+  key?: { expr: string; groupBy: string };
+}
+
+// One open transaction as seen by a sample, with the session that owns it.
+export interface TxnDetail {
+  instId: number;
+  sid: number;
+  serial: number;
+  username: string | null;
+  program: string | null;
+  module: string | null;
+  machine: string | null;
+  sqlId: string | null;
+  startTime: string;
+  ageMins: number;
+  startScn: number;
+  usedUblk: number;
+  usedUrec: number;
+}
+
+export const METRIC_KEY_SEPARATOR = "#";
+
+export function keyedMetricName(name: string, key: string | number): string {
+  return `${name}${METRIC_KEY_SEPARATOR}${key}`;
+}
+
+// v$archived_log and v$thread come from the shared control file and already
+// cover every RAC instance; querying their gv$ twins would repeat each row per
+// instance. Per-thread metrics join them so idle threads still report zero.
+const PER_THREAD_ARCHIVES = (c: SamplerContext) => `v$thread t
+      LEFT JOIN v$archived_log a
+        ON a.thread# = t.thread#
+       AND a.first_time > SYSDATE - ${c.intervalMin}/1440
+       AND a.${CURRENT_INCARNATION}
+      WHERE t.enabled <> 'DISABLED'`;
+
+// Data Guard destinations, one row each. The lag metrics correlate on
+// d.dest_id, so it is grouped on alongside the name.
+const STANDBY_DESTS = `v$archive_dest d
+      WHERE d.target = 'STANDBY'
+        AND d.status <> 'INACTIVE'`;
+
+// Shared by the DBMS_SCHEDULER job and the client-side collector so both
+// sample sources produce identical metrics.
+export const SAMPLER_METRICS: SamplerMetric[] = [
+  {
+    name: "switches",
+    comment: "Log switches in last sampling interval",
+    expr: "COUNT(*)",
+    from: (c) => `v$archived_log
+      WHERE first_time > SYSDATE - ${c.intervalMin}/1440
+        AND ${CURRENT_INCARNATION}`,
+  },
+  {
+    name: "archive_gb",
+    comment: "Archive GB generated in last sampling interval",
+    expr: "NVL(SUM(blocks * block_size) / 1024 / 1024 / 1024, 0)",
+    from: (c) => `v$archived_log
+      WHERE first_time > SYSDATE - ${c.intervalMin}/1440
+        AND ${CURRENT_INCARNATION}`,
+  },
+  {
+    name: "avg_archive_size_gb",
+    comment: "Average archive file size in GB (from last interval)",
+    expr: "NVL(AVG(blocks * block_size) / 1024 / 1024 / 1024, 0)",
+    from: (c) => `v$archived_log
+      WHERE first_time > SYSDATE - ${c.intervalMin}/1440
+        AND ${CURRENT_INCARNATION}`,
+  },
+  {
+    name: "switches",
+    comment: "Log switches in last sampling interval, per redo thread",
+    expr: "COUNT(a.sequence#)",
+    from: PER_THREAD_ARCHIVES,
+    key: { expr: "t.thread#", groupBy: "t.thread#" },
+  },
+  {
+    name: "archive_gb",
+    comment: "Archive GB generated in last sampling interval, per redo thread",
+    expr: "NVL(SUM(a.blocks * a.block_size) / 1024 / 1024 / 1024, 0)",
+    from: PER_THREAD_ARCHIVES,
+    key: { expr: "t.thread#", groupBy: "t.thread#" },
+  },
+  {
+    name: "current_scn",
+    comment: "Current SCN",
+    expr: "current_scn",
+    from: () => "v$database",
+  },
+  {
+    name: "oldest_txn_mins",
+    comment: "Oldest active transaction age (minutes), across all RAC instances",
+    expr: "NVL(MAX(ROUND((SYSDATE - t.start_date) * 24 * 60)), 0)",
+    from: () => "gv$transaction t",
+  },
+  {
+    name: "active_txn_count",
+    comment: "Active transaction count, across all RAC instances",
+    expr: "COUNT(*)",
+    from: () => "gv$transaction",
+  },
+  {
+    name: "txn_undo_records",
+    comment: "Undo records held by all open transactions (roughly the row changes not yet committed)",
+    expr: "NVL(SUM(used_urec), 0)",
+    from: () => "gv$transaction",
+  },
+  {
+    name: "txn_max_undo_records",
+    comment: "Undo records held by the largest open transaction",
+    expr: "NVL(MAX(used_urec), 0)",
+    from: () => "gv$transaction",
+  },
+  {
+    name: "txn_undo_mb",
+    comment: "Undo MB held by all open transactions",
+    expr: "NVL(SUM(t.used_ublk * p.block_size), 0) / 1024 / 1024",
+    from: () => `gv$transaction t
+      CROSS JOIN (SELECT TO_NUMBER(value) AS block_size FROM v$parameter WHERE name = 'db_block_size') p`,
+  },
+  {
+    name: "table_dml",
+    comment: "Cumulative inserts + updates + deletes per captured table since its last stats gather",
+    expr: "SUM(m.inserts + m.updates + m.deletes)",
+    from: (c) => `dba_tab_modifications m
+      WHERE m.table_owner = ${sqlLiteral(c.schema)}
+        AND REGEXP_LIKE(m.table_name, ${sqlLiteral(c.tablePattern)})
+        AND m.partition_name IS NULL`,
+    key: { expr: "m.table_name", groupBy: "m.table_name" },
+  },
+  {
+    name: "archive_window_hours",
+    comment: "Archive files with deleted=NO (available window)",
+    expr: "NVL(ROUND((MAX(next_time) - MIN(first_time)) * 24, 2), 0)",
+    from: () => `v$archived_log
+      WHERE deleted = 'NO'
+        AND ${CURRENT_INCARNATION}`,
+  },
+  {
+    name: "archive_disk_used_gb",
+    comment: "Total archive disk usage (deleted=NO files)",
+    expr: "NVL(SUM(blocks * block_size) / 1024 / 1024 / 1024, 0)",
+    from: () => `v$archived_log
+      WHERE deleted = 'NO'
+        AND ${CURRENT_INCARNATION}`,
+  },
+  {
+    name: "fra_limit_gb",
+    comment: "FRA space limit (GB), 0 when no FRA is configured",
+    expr: "NVL(SUM(space_limit) / 1024 / 1024 / 1024, 0)",
+    from: () => "v$recovery_file_dest",
+  },
+  {
+    name: "fra_used_gb",
+    comment: "FRA space used (GB)",
+    expr: "NVL(SUM(space_used) / 1024 / 1024 / 1024, 0)",
+    from: () => "v$recovery_file_dest",
+  },
+  {
+    name: "fra_reclaimable_gb",
+    comment: "FRA space Oracle can free under the deletion policy (GB)",
+    expr: "NVL(SUM(space_reclaimable) / 1024 / 1024 / 1024, 0)",
+    from: () => "v$recovery_file_dest",
+  },
+  {
+    name: "fra_archived_log_pct",
+    comment: "Share of the FRA limit held by archived logs (%)",
+    expr: "NVL(SUM(percent_space_used), 0)",
+    from: () => `v$recovery_area_usage
+      WHERE file_type = 'ARCHIVED LOG'`,
+  },
+  {
+    name: "standby_transport_lag_hours",
+    comment: "Age (hours) of the oldest archive on disk not yet shipped, per standby destination",
+    expr: `NVL(ROUND((SYSDATE - (
+        SELECT MIN(a.next_time) FROM v$archived_log a
+        WHERE a.standby_dest = 'NO'
+          AND a.deleted = 'NO'
+          AND a.${CURRENT_INCARNATION}
+          AND NOT EXISTS (
+            SELECT 1 FROM v$archived_log r
+            WHERE r.dest_id = d.dest_id
+              AND r.thread# = a.thread#
+              AND r.sequence# = a.sequence#
+              AND r.resetlogs_change# = a.resetlogs_change#)
+      )) * 24, 2), 0)`,
+    from: () => STANDBY_DESTS,
+    key: { expr: "d.dest_name", groupBy: "d.dest_name, d.dest_id" },
+  },
+  {
+    name: "standby_apply_lag_hours",
+    comment: "Age (hours) of the oldest archive shipped but not yet applied, per standby destination",
+    expr: `NVL(ROUND((SYSDATE - (
+        SELECT MIN(r.next_time) FROM v$archived_log r
+        WHERE r.dest_id = d.dest_id
+          AND r.applied = 'NO'
+          AND r.next_time > SYSDATE - 7
+          AND r.${CURRENT_INCARNATION}
+      )) * 24, 2), 0)`,
+    from: () => STANDBY_DESTS,
+    key: { expr: "d.dest_name", groupBy: "d.dest_name, d.dest_id" },
+  },
+];
+
+// Oldest open transactions recorded per sample. Ten is enough to name the
+// sessions behind an oldest_txn_mins peak without the table growing much.
+export const TXN_DETAIL_LIMIT = 10;
+
+// Columns of DBZ_DIAG_TXN_DETAIL and the gv$ expression each is filled from.
+// sql_id falls back to the previous statement: an idle session holding a
+// transaction open has no current one.
+const TXN_DETAIL_COLUMNS: Array<{ column: string; expr: string }> = [
+  { column: "inst_id", expr: "t.inst_id" },
+  { column: "sid", expr: "s.sid" },
+  { column: "serial_num", expr: "s.serial#" },
+  { column: "username", expr: "s.username" },
+  { column: "program", expr: "s.program" },
+  { column: "module", expr: "s.module" },
+  { column: "machine", expr: "s.machine" },
+  { column: "sql_id", expr: "NVL(s.sql_id, s.prev_sql_id)" },
+  { column: "start_time", expr: "t.start_date" },
+  { column: "age_mins", expr: "ROUND((SYSDATE - t.start_date) * 24 * 60, 1)" },
+  { column: "start_scn", expr: "t.start_scn" },
+  { column: "used_ublk", expr: "t.used_ublk" },
+  { column: "used_urec", expr: "t.used_urec" },
+];
+
+const TXN_DETAIL_FROM = `gv$transaction t
+      JOIN gv$session s ON s.inst_id = t.inst_id AND s.saddr = t.ses_addr
+      ORDER BY t.start_date
+      FETCH FIRST ${TXN_DETAIL_LIMIT} ROWS ONLY`;
+
+/** Maps a DBZ_DIAG_TXN_DETAIL row (or the collector's equivalent query) to a TxnDetail. */
+export function txnDetailFromRow(row: any): TxnDetail {
+  return {
+    instId: row.INST_ID,
+    sid: row.SID,
+    serial: row.SERIAL_NUM,
+    username: row.USERNAME ?? null,
+    program: row.PROGRAM ?? null,
+    module: row.MODULE ?? null,
+    machine: row.MACHINE ?? null,
+    sqlId: row.SQL_ID ?? null,
+    startTime: row.START_TIME,
+    ageMins: row.AGE_MINS ?? 0,
+    startScn: row.START_SCN ?? 0,
+    usedUblk: row.USED_UBLK ?? 0,
+    usedUrec: row.USED_UREC ?? 0,
+  };
+}
+
+// DBA_TAB_MODIFICATIONS is only refreshed every few hours unless flushed. The
+// flush needs ANALYZE ANY; without it the per-table counts are just coarser.
+const FLUSH_MONITORING = `
+      BEGIN
+        DBMS_STATS.FLUSH_DATABASE_MONITORING_INFO;
+      EXCEPTION
+        WHEN OTHERS THEN NULL;
+      END;`;
+
+function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function buildSamplerPlsql(user: string, ctx: SamplerContext): string {
+  const inserts = SAMPLER_METRICS.map((m) => `
+      -- ${m.comment}
+      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
+      SELECT ${m.key ? `'${m.name}${METRIC_KEY_SEPARATOR}' || ${m.key.expr}` : `'${m.name}'`}, ${m.expr}
+      FROM ${m.from(ctx)}${m.key ? `
+      GROUP BY ${m.key.groupBy}` : ""};`).join("\n");
+
+  return `
+    BEGIN${FLUSH_MONITORING}
+${inserts}
+
+      -- Oldest open transactions and their sessions
+      INSERT INTO ${user}.${TXN_TABLE} (${TXN_DETAIL_COLUMNS.map((c) => c.column).join(", ")})
+      SELECT ${TXN_DETAIL_COLUMNS.map((c) => c.expr).join(", ")}
+      FROM ${TXN_DETAIL_FROM};
+
+      COMMIT;
+    END;
+  `;
+}
+
+export async function sampleMetrics(
+  conn: oracledb.Connection,
+  ctx: SamplerContext
+): Promise<Array<{ metric: string; value: number }>> {
+  await conn.execute(`BEGIN${FLUSH_MONITORING}
+END;`);
+
+  const results: Array<{ metric: string; value: number }> = [];
+  for (const m of SAMPLER_METRICS) {
+    if (m.key) {
+      const rows = await queryRows<{ METRIC_KEY: string | number; METRIC_VALUE: number }>(
+        conn,
+        `SELECT ${m.key.expr} AS METRIC_KEY, ${m.expr} AS METRIC_VALUE FROM ${m.from(ctx)} GROUP BY ${m.key.groupBy}`
+      );
+      for (const row of rows) {
+        results.push({ metric: keyedMetricName(m.name, row.METRIC_KEY), value: row.METRIC_VALUE ?? 0 });
+      }
+      continue;
+    }
+    const rows = await queryRows<{ METRIC_VALUE: number }>(
+      conn,
+      `SELECT ${m.expr} AS METRIC_VALUE FROM ${m.from(ctx)}`
+    );
+    results.push({ metric: m.name, value: rows[0]?.METRIC_VALUE ?? 0 });
+  }
+  return results;
+}
+
+export async function gatherStatic(
+  conn: oracledb.Connection,
+  schema: string,
+  tablePattern: string
+): Promise<Array<{ name: string; value: string }>> {
+  const checks: Array<{ name: string; value: string }> = [];
+  const add = (name: string, value: string) => checks.push({ name, value });
+
+  // Multitenant architecture. Redo and archive views are container-wide, but
+  // ALL_TABLES and DBA_TAB_MODIFICATIONS only see the container we are in.
+  // v$database.cdb does not exist before 12c.
+  const container = await queryRows(
+    conn,
+    `SELECT cdb, SYS_CONTEXT('USERENV', 'CON_NAME') AS con_name, SYS_CONTEXT('USERENV', 'DB_NAME') AS db_name
+     FROM v$database`
+  ).catch(() => [{ CDB: "NO", CON_NAME: null, DB_NAME: null }]);
+  add("container", JSON.stringify(container));
+
+  // Pluggable databases visible from here: all of them from CDB$ROOT, only
+  // the current one from inside a PDB
+  const pdbs = container[0]?.CDB === "YES"
+    ? await queryRows(conn, `SELECT name, open_mode FROM v$containers WHERE con_id > 2 ORDER BY con_id`).catch(() => [])
+    : [];
+  add("pdbs", JSON.stringify(pdbs));
+
+  // Redo log configuration
+  const redoLogs = await queryRows<{ GROUP_NUM: number; THREAD: number; BYTES: number; MEMBERS: number; STATUS: string }>(
+    conn,
+    `SELECT group# AS GROUP_NUM, thread# AS THREAD, bytes AS BYTES, members AS MEMBERS, status AS STATUS
+     FROM v$log ORDER BY thread#, group#`
+  );
+  add("redo_log_config", JSON.stringify(redoLogs));
+
+  // RAC instances and the redo thread each one writes
+  const instances = await queryRows(
+    conn,
+    `SELECT inst_id, instance_name, thread# AS thread FROM gv$instance ORDER BY inst_id`
+  );
+  add("rac_instances", JSON.stringify(instances));
+
+  // Archive destination
+  const archDest = await queryRows(
+    conn,
+    `SELECT dest_name, status, destination FROM v$archive_dest WHERE status = 'VALID' AND ROWNUM <= 5`
+  );
+  add("archive_destinations", JSON.stringify(archDest));
+
+  // FRA config
+  const fra = await queryRows(
+    conn,
+    `SELECT name, value FROM v$parameter WHERE name LIKE 'db_recovery%'`
+  );
+  add("fra_config", JSON.stringify(fra));
+
+  // FRA location (path or ASM disk group) for the cleanup script
+  const fraDest = await queryRows(
+    conn,
+    `SELECT name FROM v$recovery_file_dest WHERE name IS NOT NULL`
+  );
+  add("fra_destination", JSON.stringify(fraDest));
+
+  // Data Guard: the role of this database and the standbys it ships to.
+  // database_mode OPEN_READ-ONLY with a managed recovery mode is Active Data
+  // Guard, which Debezium can mine in archive-log-only mode.
+  const role = await queryRows(
+    conn,
+    `SELECT database_role, open_mode FROM v$database`
+  );
+  add("database_role", JSON.stringify(role));
+
+  const standbys = await queryRows(
+    conn,
+    `SELECT d.dest_name, d.destination, d.status, d.transmit_mode,
+            s.db_unique_name, s.database_mode, s.recovery_mode
+     FROM v$archive_dest d
+     JOIN v$archive_dest_status s ON s.dest_id = d.dest_id
+     WHERE d.target = 'STANDBY' AND d.status <> 'INACTIVE'
+     ORDER BY d.dest_id`
+  );
+  add("standby_destinations", JSON.stringify(standbys));
+
+  // Archive lag target
+  const lagTarget = await queryRows(
+    conn,
+    `SELECT value FROM v$parameter WHERE name = 'archive_lag_target'`
+  );
+  add("archive_lag_target", JSON.stringify(lagTarget));
+
+  // Supplemental logging
+  const suppLog = await queryRows(
+    conn,
+    `SELECT supplemental_log_data_min, supplemental_log_data_pk, supplemental_log_data_all FROM v$database`
+  );
+  add("supplemental_logging", JSON.stringify(suppLog));
+
+  // Table-level ALL COLUMNS log groups on captured tables
+  const tableLogGroups = await queryRows(
+    conn,
+    `SELECT t.table_name,
+            CASE WHEN EXISTS (
+              SELECT 1 FROM all_log_groups g
+              WHERE g.owner = t.owner AND g.table_name = t.table_name
+                AND g.log_group_type = 'ALL COLUMN LOGGING'
+            ) THEN 'YES' ELSE 'NO' END AS all_column_logging
+     FROM all_tables t
+     WHERE t.owner = :schema AND REGEXP_LIKE(t.table_name, :pattern)
+     ORDER BY t.table_name`,
+    { schema, pattern: tablePattern }
+  );
+  add("table_log_groups", JSON.stringify(tableLogGroups));
+
+  // CLOB/BLOB columns in captured tables
+  const lobCols = await queryRows(
+    conn,
+    `SELECT table_name, column_name, data_type
+     FROM all_tab_columns
+     WHERE owner = :schema
+       AND REGEXP_LIKE(table_name, :pattern)
+       AND data_type IN ('CLOB', 'BLOB', 'NCLOB')
+     ORDER BY table_name, column_name`,
+    { schema, pattern: tablePattern }
+  );
+  add("lob_columns", JSON.stringify(lobCols));
+
+  // Columns the LogMiner adapter skips or cannot decode. Object types have a
+  // DATA_TYPE_OWNER; XMLTYPE is one too, so it is matched first.
+  const unsupportedCols = await queryRows(
+    conn,
+    `SELECT c.table_name, c.column_name, c.data_type,
+            CASE WHEN c.data_type IN ('LONG', 'LONG RAW') THEN 'LONG'
+                 WHEN c.data_type = 'BFILE' THEN 'BFILE'
+                 WHEN c.data_type = 'XMLTYPE' THEN 'XMLTYPE'
+                 WHEN n.parent_table_column IS NOT NULL THEN 'NESTED_TABLE'
+                 ELSE 'OBJECT' END AS category
+     FROM all_tab_columns c
+     LEFT JOIN all_nested_tables n
+       ON n.owner = c.owner AND n.parent_table_name = c.table_name AND n.parent_table_column = c.column_name
+     WHERE c.owner = :schema
+       AND REGEXP_LIKE(c.table_name, :pattern)
+       AND (c.data_type IN ('LONG', 'LONG RAW', 'BFILE', 'XMLTYPE')
+            OR c.data_type_owner IS NOT NULL
+            OR n.parent_table_column IS NOT NULL)
+     ORDER BY c.table_name, c.column_id`,
+    { schema, pattern: tablePattern }
+  );
+  add("unsupported_columns", JSON.stringify(unsupportedCols));
+
+  // Captured tables without a primary key, one row per unique index (or a
+  // single row with a null index when there is none)
+  const keyless = await queryRows(
+    conn,
+    `SELECT t.table_name, i.index_name,
+            LISTAGG(ic.column_name, ',') WITHIN GROUP (ORDER BY ic.column_position) AS index_columns,
+            SUM(CASE WHEN NVL(c.nullable, 'Y') = 'Y' THEN 1 ELSE 0 END) AS nullable_columns
+     FROM all_tables t
+     LEFT JOIN all_indexes i
+       ON i.table_owner = t.owner AND i.table_name = t.table_name AND i.uniqueness = 'UNIQUE'
+     LEFT JOIN all_ind_columns ic
+       ON ic.index_owner = i.owner AND ic.index_name = i.index_name
+     LEFT JOIN all_tab_columns c
+       ON c.owner = t.owner AND c.table_name = t.table_name AND c.column_name = ic.column_name
+     WHERE t.owner = :schema
+       AND REGEXP_LIKE(t.table_name, :pattern)
+       AND NOT EXISTS (
+         SELECT 1 FROM all_constraints k
+         WHERE k.owner = t.owner AND k.table_name = t.table_name AND k.constraint_type = 'P'
+       )
+     GROUP BY t.table_name, i.index_name
+     ORDER BY t.table_name, i.index_name`,
+    { schema, pattern: tablePattern }
+  );
+  add("keyless_tables", JSON.stringify(keyless));
+
+  // Count of captured tables
+  const tableCount = await queryRows<{ CNT: number }>(
+    conn,
+    `SELECT COUNT(*) AS CNT FROM all_tables
+     WHERE owner = :schema AND REGEXP_LIKE(table_name, :pattern)`,
+    { schema, pattern: tablePattern }
+  );
+  add("captured_table_count", String(tableCount[0]?.CNT ?? 0));
+
+  // Optimizer statistics and segment size of captured tables (row size for
+  // event and topic sizing, volume for snapshot planning)
+  const tableStats = await queryRows(
+    conn,
+    `SELECT t.table_name, t.num_rows, t.avg_row_len, t.blocks, t.last_analyzed,
+            (SELECT SUM(s.bytes) FROM dba_segments s
+             WHERE s.owner = t.owner AND s.segment_name = t.table_name
+               AND s.segment_type LIKE 'TABLE%') AS segment_bytes
+     FROM all_tables t
+     WHERE t.owner = :schema AND REGEXP_LIKE(t.table_name, :pattern)
+     ORDER BY t.table_name`,
+    { schema, pattern: tablePattern }
+  );
+  add("table_stats", JSON.stringify(tableStats));
+
+  // Undo retention: a snapshot reads every table as of one SCN, so it fails
+  // with ORA-01555 once it outlives the undo. tuned_undoretention is what
+  // Oracle actually kept; its minimum over the last day is the one to trust.
+  const undo = await queryRows(
+    conn,
+    `SELECT (SELECT TO_NUMBER(value) FROM v$parameter WHERE name = 'undo_retention') AS undo_retention,
+            (SELECT MIN(tuned_undoretention) FROM v$undostat WHERE begin_time > SYSDATE - 1) AS tuned_min,
+            (SELECT MAX(t.retention) FROM dba_tablespaces t
+             WHERE t.contents = 'UNDO' AND t.status = 'ONLINE') AS retention
+     FROM dual`
+  );
+  add("undo_retention", JSON.stringify(undo));
+
+  // Total tables in schema (for ratio)
+  const allTableCount = await queryRows<{ CNT: number }>(
+    conn,
+    `SELECT COUNT(*) AS CNT FROM all_tables WHERE owner = :schema`,
+    { schema }
+  );
+  add("schema_table_count", String(allTableCount[0]?.CNT ?? 0));
+
+  // max_string_size (for CLOB→VARCHAR2 recommendation)
+  const maxStr = await queryRows(
+    conn,
+    `SELECT value FROM v$parameter WHERE name = 'max_string_size'`
+  );
+  add("max_string_size", JSON.stringify(maxStr));
+
+  // Capture config for the report
+  add("capture_schema", schema);
+  add("capture_table_pattern", tablePattern);
+
+  return checks;
+}
+
+export async function sampleTransactions(conn: oracledb.Connection): Promise<TxnDetail[]> {
+  const select = TXN_DETAIL_COLUMNS.map((c) =>
+    c.column === "start_time" ? `TO_CHAR(${c.expr}, ${DATE_TIME_FORMAT}) AS START_TIME` : `${c.expr} AS ${c.column.toUpperCase()}`
+  );
+  const rows = await queryRows(conn, `SELECT ${select.join(", ")} FROM ${TXN_DETAIL_FROM}`);
+  return rows.map(txnDetailFromRow);
+}
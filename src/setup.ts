@@ -1,20 +1,92 @@
 import oracledb from "oracledb";
+import * as fs from "fs";
+import * as path from "path";
 import { DbConfig, withConnection, execute, queryRows } from "./db";
+import { SamplerContext, buildSamplerPlsql, gatherStatic } from "./sampler";
+import { heartbeatTableStatements } from "./heartbeat";
 
 const SAMPLE_TABLE = "DBZ_DIAG_SAMPLES";
 const STATIC_TABLE = "DBZ_DIAG_STATIC";
+const TXN_TABLE = "DBZ_DIAG_TXN_DETAIL";
 const JOB_NAME = "DBZ_DIAG_SAMPLER";
+const METRIC_NAME_LENGTH = 200;
 
-export async function setup(cfg: DbConfig): Promise<void> {
+const TABLE_COLUMNS: Record<string, string> = {
+  [SAMPLE_TABLE]: `
+      sample_time  TIMESTAMP DEFAULT SYSTIMESTAMP,
+      metric_name  VARCHAR2(${METRIC_NAME_LENGTH}),
+      metric_value NUMBER`,
+  [STATIC_TABLE]: `
+      check_time  TIMESTAMP DEFAULT SYSTIMESTAMP,
+      check_name  VARCHAR2(100),
+      check_value CLOB`,
+  [TXN_TABLE]: `
+      sample_time TIMESTAMP DEFAULT SYSTIMESTAMP,
+      inst_id     NUMBER,
+      sid         NUMBER,
+      serial_num  NUMBER,
+      username    VARCHAR2(128),
+      program     VARCHAR2(128),
+      module      VARCHAR2(128),
+      machine     VARCHAR2(128),
+      sql_id      VARCHAR2(13),
+      start_time  DATE,
+      age_mins    NUMBER,
+      start_scn   NUMBER,
+      used_ublk   NUMBER,
+      used_urec   NUMBER`,
+};
+
+// Views the sampler and static checks read, with the SYS base view a DBA
+// grants SELECT on.
+const REQUIRED_VIEWS = [
+  { name: "v$archived_log", grant: "SYS.V_$ARCHIVED_LOG" },
+  { name: "v$log", grant: "SYS.V_$LOG" },
+  { name: "v$database", grant: "SYS.V_$DATABASE" },
+  { name: "gv$transaction", grant: "SYS.GV_$TRANSACTION" },
+  { name: "gv$session", grant: "SYS.GV_$SESSION" },
+  { name: "v$thread", grant: "SYS.V_$THREAD" },
+  { name: "gv$instance", grant: "SYS.GV_$INSTANCE" },
+  { name: "dba_tab_modifications", grant: "SYS.DBA_TAB_MODIFICATIONS" },
+  { name: "v$parameter", grant: "SYS.V_$PARAMETER" },
+  { name: "v$recovery_file_dest", grant: "SYS.V_$RECOVERY_FILE_DEST" },
+  { name: "v$recovery_area_usage", grant: "SYS.V_$RECOVERY_AREA_USAGE" },
+  { name: "v$session", grant: "SYS.V_$SESSION" },
+  { name: "dba_segments", grant: "SYS.DBA_SEGMENTS" },
+  { name: "v$undostat", grant: "SYS.V_$UNDOSTAT" },
+  { name: "dba_tablespaces", grant: "SYS.DBA_TABLESPACES" },
+  { name: "v$archive_dest", grant: "SYS.V_$ARCHIVE_DEST" },
+  { name: "v$archive_dest_status", grant: "SYS.V_$ARCHIVE_DEST_STATUS" },
+];
+
+// ORA-00955 table exists, ORA-00001 heartbeat row exists, ORA-32588
+// supplemental logging already on: a rerun finds the work done.
+const ALREADY_DONE_ERRORS = [955, 1, 32588];
+
+// SQL*Plus ends a substitution variable at the first period and drops it, so
+// "&&diag_user." followed by ".TABLE" reads as DIAG.TABLE.
+const SQLPLUS_USER = "&&diag_user.";
+
+export interface SetupOptions {
+  heartbeatTables?: boolean;
+  // Grantee of the heartbeat and signaling tables
+  connectorUser?: string;
+}
+
+export async function setup(cfg: DbConfig, opts: SetupOptions = {}): Promise<void> {
   const schema = process.env.CAPTURE_SCHEMA;
   const tablePattern = process.env.CAPTURE_TABLE_PATTERN;
   const intervalMin = parseInt(process.env.SAMPLE_INTERVAL_MINUTES ?? "15", 10);
+  const grantee = heartbeatGrantee(opts);
 
   if (!schema || !tablePattern) {
     throw new Error("Missing CAPTURE_SCHEMA or CAPTURE_TABLE_PATTERN");
   }
 
   await withConnection(cfg, async (conn) => {
+    console.log("Checking container...");
+    await checkContainer(conn);
+
     console.log("Checking privileges...");
     await checkPrivileges(conn, cfg.user);
 
@@ -25,32 +97,54 @@ export async function setup(cfg: DbConfig): Promise<void> {
     await collectStatic(conn, cfg.user, schema, tablePattern);
 
     console.log(`Creating sampler job (every ${intervalMin} min)...`);
-    await createSamplerJob(conn, cfg.user, intervalMin);
+    await createSamplerJob(conn, cfg.user, { intervalMin, schema, tablePattern });
+
+    if (grantee) {
+      console.log(`Creating heartbeat and signaling tables in ${schema}...`);
+      await createHeartbeatTables(conn, schema, grantee);
+    }
 
     console.log("\n✓ Setup complete.");
     console.log(`  Sampling every ${intervalMin} minutes into ${cfg.user}.${SAMPLE_TABLE}`);
     console.log(`  Static data in ${cfg.user}.${STATIC_TABLE}`);
+    console.log(`  Oldest open transactions in ${cfg.user}.${TXN_TABLE}`);
     console.log(`  Let it run for at least 24 hours (ideally a full business day).`);
     console.log(`  Then run: npm run report`);
   });
 }
 
-async function checkPrivileges(conn: oracledb.Connection, user: string): Promise<void> {
-  const checks = [
-    { name: "v$archived_log", sql: "SELECT 1 FROM v$archived_log WHERE ROWNUM = 1" },
-    { name: "v$log", sql: "SELECT 1 FROM v$log WHERE ROWNUM = 1" },
-    { name: "v$database", sql: "SELECT 1 FROM v$database" },
-    { name: "v$transaction", sql: "SELECT 1 FROM v$transaction WHERE ROWNUM = 1" },
-    { name: "v$parameter", sql: "SELECT 1 FROM v$parameter WHERE ROWNUM = 1" },
-    { name: "v$session", sql: "SELECT 1 FROM v$session WHERE ROWNUM = 1" },
-  ];
+// Redo and archive views look the same from every container, but ALL_TABLES
+// and DBA_TAB_MODIFICATIONS in CDB$ROOT do not see a PDB's tables, so the
+// sampler has to run in the PDB that holds them.
+async function checkContainer(conn: oracledb.Connection): Promise<void> {
+  const rows = await queryRows<{ CDB: string; CON_NAME: string }>(
+    conn,
+    `SELECT cdb AS CDB, SYS_CONTEXT('USERENV', 'CON_NAME') AS CON_NAME FROM v$database`
+  ).catch(() => []);
+  if (rows[0]?.CDB !== "YES") {
+    console.log("  Non-CDB database.");
+    return;
+  }
+  if (rows[0].CON_NAME !== "CDB$ROOT") {
+    console.log(`  Multitenant database: sampling in PDB ${rows[0].CON_NAME}.`);
+    return;
+  }
 
+  const pdbs = await queryRows<{ NAME: string }>(conn, `SELECT name AS NAME FROM v$containers WHERE con_id > 2 ORDER BY con_id`);
+  throw new Error(
+    `Connected to CDB$ROOT, where the captured tables are not visible` +
+    `${pdbs.length > 0 ? ` (PDBs: ${pdbs.map((p) => p.NAME).join(", ")})` : ""}. ` +
+    `Set ORACLE_SERVICE to the service of the PDB holding them and rerun setup.`
+  );
+}
+
+async function checkPrivileges(conn: oracledb.Connection, user: string): Promise<void> {
   const missing: string[] = [];
-  for (const check of checks) {
+  for (const view of REQUIRED_VIEWS) {
     try {
-      await conn.execute(check.sql);
+      await conn.execute(`SELECT 1 FROM ${view.name} WHERE ROWNUM = 1`);
     } catch {
-      missing.push(check.name);
+      missing.push(view.name);
     }
   }
 
@@ -67,7 +161,7 @@ async function checkPrivileges(conn: oracledb.Connection, user: string): Promise
 
 async function createTables(conn: oracledb.Connection, user: string): Promise<void> {
   // Drop existing if present
-  for (const table of [SAMPLE_TABLE, STATIC_TABLE]) {
+  for (const table of [SAMPLE_TABLE, STATIC_TABLE, TXN_TABLE]) {
     try {
       await execute(conn, `DROP TABLE ${user}.${table} PURGE`);
     } catch {
@@ -75,107 +169,86 @@ async function createTables(conn: oracledb.Connection, user: string): Promise<vo
     }
   }
 
-  await execute(conn, `
-    CREATE TABLE ${user}.${SAMPLE_TABLE} (
-      sample_time  TIMESTAMP DEFAULT SYSTIMESTAMP,
-      metric_name  VARCHAR2(100),
-      metric_value NUMBER
-    )
-  `);
-
-  await execute(conn, `
-    CREATE TABLE ${user}.${STATIC_TABLE} (
-      check_time  TIMESTAMP DEFAULT SYSTIMESTAMP,
-      check_name  VARCHAR2(100),
-      check_value VARCHAR2(4000)
-    )
-  `);
+  for (const table of [SAMPLE_TABLE, STATIC_TABLE, TXN_TABLE]) {
+    await execute(conn, tableDdl(user, table));
+  }
 }
 
-async function collectStatic(
-  conn: oracledb.Connection,
-  user: string,
-  schema: string,
-  tablePattern: string
-): Promise<void> {
-  // Redo log configuration
-  const redoLogs = await queryRows<{ GROUP_NUM: number; BYTES: number; MEMBERS: number; STATUS: string }>(
-    conn,
-    `SELECT group# AS GROUP_NUM, bytes AS BYTES, members AS MEMBERS, status AS STATUS FROM v$log ORDER BY group#`
-  );
-  await insertStatic(conn, user, "redo_log_config", JSON.stringify(redoLogs));
-
-  // Archive destination
-  const archDest = await queryRows(
+/**
+ * Creates whichever monitoring tables are missing, keeping any data already
+ * collected, and migrates the columns of existing tables to their current type.
+ */
+export async function createMissingTables(conn: oracledb.Connection, user: string): Promise<void> {
+  const existing = await queryRows<{ TABLE_NAME: string }>(
     conn,
-    `SELECT dest_name, status, destination FROM v$archive_dest WHERE status = 'VALID' AND ROWNUM <= 5`
+    `SELECT table_name AS TABLE_NAME FROM all_tables WHERE owner = :owner AND table_name IN (:t1, :t2, :t3)`,
+    { owner: user.toUpperCase(), t1: SAMPLE_TABLE, t2: STATIC_TABLE, t3: TXN_TABLE }
   );
-  await insertStatic(conn, user, "archive_destinations", JSON.stringify(archDest));
-
-  // FRA config
-  const fra = await queryRows(
-    conn,
-    `SELECT name, value FROM v$parameter WHERE name LIKE 'db_recovery%'`
-  );
-  await insertStatic(conn, user, "fra_config", JSON.stringify(fra));
-
-  // Archive lag target
-  const lagTarget = await queryRows(
-    conn,
-    `SELECT value FROM v$parameter WHERE name = 'archive_lag_target'`
-  );
-  await insertStatic(conn, user, "archive_lag_target", JSON.stringify(lagTarget));
-
-  // Supplemental logging
-  const suppLog = await queryRows(
-    conn,
-    `SELECT supplemental_log_data_min, supplemental_log_data_pk, supplemental_log_data_all FROM v$database`
-  );
-  await insertStatic(conn, user, "supplemental_logging", JSON.stringify(suppLog));
+  const names = new Set(existing.map((t) => t.TABLE_NAME));
+  for (const table of [SAMPLE_TABLE, STATIC_TABLE, TXN_TABLE]) {
+    if (!names.has(table)) {
+      await execute(conn, tableDdl(user, table));
+      console.log(`  Created table ${table}`);
+    }
+  }
 
-  // CLOB/BLOB columns in captured tables
-  const lobCols = await queryRows(
+  const columns = await queryRows<{ TABLE_NAME: string; DATA_TYPE: string; DATA_LENGTH: number }>(
     conn,
-    `SELECT table_name, column_name, data_type
+    `SELECT table_name AS TABLE_NAME, data_type AS DATA_TYPE, data_length AS DATA_LENGTH
      FROM all_tab_columns
-     WHERE owner = :schema
-       AND REGEXP_LIKE(table_name, :pattern)
-       AND data_type IN ('CLOB', 'BLOB', 'NCLOB')
-     ORDER BY table_name, column_name`,
-    { schema, pattern: tablePattern }
+     WHERE owner = :owner
+       AND ((table_name = :t1 AND column_name = 'METRIC_NAME') OR (table_name = :t2 AND column_name = 'CHECK_VALUE'))`,
+    { owner: user.toUpperCase(), t1: SAMPLE_TABLE, t2: STATIC_TABLE }
   );
-  await insertStatic(conn, user, "lob_columns", JSON.stringify(lobCols));
+  const column = (table: string) => columns.find((c) => c.TABLE_NAME === table);
+  if ((column(SAMPLE_TABLE)?.DATA_LENGTH ?? METRIC_NAME_LENGTH) < METRIC_NAME_LENGTH) {
+    await execute(conn, widenMetricName(user));
+    console.log(`  Widened ${SAMPLE_TABLE}.METRIC_NAME to VARCHAR2(${METRIC_NAME_LENGTH})`);
+  }
+  if (column(STATIC_TABLE)?.DATA_TYPE === "VARCHAR2") {
+    for (const sql of checkValueToClob(user)) await execute(conn, sql);
+    console.log(`  Migrated ${STATIC_TABLE}.CHECK_VALUE to CLOB`);
+  }
+}
 
-  // Count of captured tables
-  const tableCount = await queryRows<{ CNT: number }>(
-    conn,
-    `SELECT COUNT(*) AS CNT FROM all_tables
-     WHERE owner = :schema AND REGEXP_LIKE(table_name, :pattern)`,
-    { schema, pattern: tablePattern }
-  );
-  await insertStatic(conn, user, "captured_table_count", String(tableCount[0]?.CNT ?? 0));
+// Keyed table_dml#<TABLE> metric names run up to 138 characters; the column
+// was VARCHAR2(100) before per-table sampling.
+function widenMetricName(user: string): string {
+  return `ALTER TABLE ${user}.${SAMPLE_TABLE} MODIFY (metric_name VARCHAR2(${METRIC_NAME_LENGTH}))`;
+}
 
-  // Total tables in schema (for ratio)
-  const allTableCount = await queryRows<{ CNT: number }>(
-    conn,
-    `SELECT COUNT(*) AS CNT FROM all_tables WHERE owner = :schema`,
-    { schema }
-  );
-  await insertStatic(conn, user, "schema_table_count", String(allTableCount[0]?.CNT ?? 0));
+// Per-table JSON arrays in the statics outgrow VARCHAR2(4000) past a few dozen
+// captured tables. Oracle cannot MODIFY a VARCHAR2 to a CLOB, so the values are
+// copied into a new column that takes the old one's name.
+function checkValueToClob(user: string): string[] {
+  const table = `${user}.${STATIC_TABLE}`;
+  return [
+    `ALTER TABLE ${table} ADD (check_value_clob CLOB)`,
+    `UPDATE ${table} SET check_value_clob = check_value`,
+    `ALTER TABLE ${table} DROP COLUMN check_value`,
+    `ALTER TABLE ${table} RENAME COLUMN check_value_clob TO check_value`,
+  ];
+}
 
-  // max_string_size (for CLOB→VARCHAR2 recommendation)
-  const maxStr = await queryRows(
-    conn,
-    `SELECT value FROM v$parameter WHERE name = 'max_string_size'`
-  );
-  await insertStatic(conn, user, "max_string_size", JSON.stringify(maxStr));
+function tableDdl(user: string, table: string): string {
+  return `
+    CREATE TABLE ${user}.${table} (${TABLE_COLUMNS[table]}
+    )
+  `;
+}
 
-  // Capture config for the report
-  await insertStatic(conn, user, "capture_schema", schema);
-  await insertStatic(conn, user, "capture_table_pattern", tablePattern);
+export async function collectStatic(
+  conn: oracledb.Connection,
+  user: string,
+  schema: string,
+  tablePattern: string
+): Promise<void> {
+  for (const check of await gatherStatic(conn, schema, tablePattern)) {
+    await insertStatic(conn, user, check.name, check.value);
+  }
 }
 
-async function createSamplerJob(conn: oracledb.Connection, user: string, intervalMin: number): Promise<void> {
+async function createSamplerJob(conn: oracledb.Connection, user: string, ctx: SamplerContext): Promise<void> {
   // Drop existing job if present
   try {
     await execute(conn, `BEGIN DBMS_SCHEDULER.DROP_JOB('${JOB_NAME}', TRUE); END;`);
@@ -183,62 +256,7 @@ async function createSamplerJob(conn: oracledb.Connection, user: string, interva
     // Job doesn't exist
   }
 
-  const plsql = `
-    BEGIN
-      -- Log switches in last sampling interval
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'switches', COUNT(*)
-      FROM v$archived_log
-      WHERE first_time > SYSDATE - ${intervalMin}/1440
-        AND resetlogs_change# = (SELECT resetlogs_change# FROM v$database);
-
-      -- Archive GB generated in last sampling interval
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'archive_gb', NVL(SUM(blocks * block_size) / 1024 / 1024 / 1024, 0)
-      FROM v$archived_log
-      WHERE first_time > SYSDATE - ${intervalMin}/1440
-        AND resetlogs_change# = (SELECT resetlogs_change# FROM v$database);
-
-      -- Average archive file size in GB (from last interval)
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'avg_archive_size_gb', NVL(AVG(blocks * block_size) / 1024 / 1024 / 1024, 0)
-      FROM v$archived_log
-      WHERE first_time > SYSDATE - ${intervalMin}/1440
-        AND resetlogs_change# = (SELECT resetlogs_change# FROM v$database);
-
-      -- Current SCN
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'current_scn', current_scn FROM v$database;
-
-      -- Oldest active transaction age (minutes)
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'oldest_txn_mins', NVL(MAX(ROUND((SYSDATE - t.start_date) * 24 * 60)), 0)
-      FROM v$transaction t;
-
-      -- Active transaction count
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'active_txn_count', COUNT(*)
-      FROM v$transaction;
-
-      -- Archive files with deleted=NO (available window)
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'archive_window_hours',
-             NVL(ROUND((MAX(next_time) - MIN(first_time)) * 24, 2), 0)
-      FROM v$archived_log
-      WHERE deleted = 'NO'
-        AND resetlogs_change# = (SELECT resetlogs_change# FROM v$database);
-
-      -- Total archive disk usage (deleted=NO files)
-      INSERT INTO ${user}.${SAMPLE_TABLE} (metric_name, metric_value)
-      SELECT 'archive_disk_used_gb',
-             NVL(SUM(blocks * block_size) / 1024 / 1024 / 1024, 0)
-      FROM v$archived_log
-      WHERE deleted = 'NO'
-        AND resetlogs_change# = (SELECT resetlogs_change# FROM v$database);
-
-      COMMIT;
-    END;
-  `;
+  const plsql = buildSamplerPlsql(user, ctx);
 
   await execute(conn, `
     BEGIN
@@ -247,7 +265,7 @@ async function createSamplerJob(conn: oracledb.Connection, user: string, interva
         job_type        => 'PLSQL_BLOCK',
         job_action      => q'[${plsql}]',
         start_date      => SYSTIMESTAMP,
-        repeat_interval => 'FREQ=MINUTELY; INTERVAL=${intervalMin}',
+        repeat_interval => 'FREQ=MINUTELY; INTERVAL=${ctx.intervalMin}',
         enabled         => TRUE
       );
     END;
@@ -258,10 +276,197 @@ async function createSamplerJob(conn: oracledb.Connection, user: string, interva
   console.log("  Initial sample collected.");
 }
 
+// The connector user the heartbeat and signaling tables are granted to; null
+// when they are not created.
+function heartbeatGrantee(opts: SetupOptions): string | null {
+  if (!opts.heartbeatTables) return null;
+  if (!opts.connectorUser) throw new Error("--with-heartbeat needs --connector-user");
+  return opts.connectorUser;
+}
+
+// Existing tables are kept, so a rerun does not reset the connector's signals.
+async function createHeartbeatTables(conn: oracledb.Connection, schema: string, connectorUser: string): Promise<void> {
+  for (const s of heartbeatTableStatements(schema.toUpperCase(), connectorUser)) {
+    try {
+      await execute(conn, s.sql);
+      console.log(`  ${s.comment}: done`);
+    } catch (e: any) {
+      if (ALREADY_DONE_ERRORS.includes(e.errorNum)) {
+        console.log(`  ${s.comment}: already present`);
+        continue;
+      }
+      throw new Error(`${s.comment} failed: ${e.message}. Run report --heartbeat-tables and have the DBA apply dbz-heartbeat-signal.sql instead.`);
+    }
+  }
+}
+
 async function insertStatic(conn: oracledb.Connection, user: string, name: string, value: string): Promise<void> {
   await execute(
     conn,
     `INSERT INTO ${user}.${STATIC_TABLE} (check_name, check_value) VALUES (:name, :value)`,
-    { name, value }
+    { name, value: { val: value, type: oracledb.CLOB } }
   );
 }
+
+// ── SQL*Plus script ─────────────────────────────────────────────────────────
+
+/**
+ * Writes what setup would execute as a SQL*Plus script for a DBA to review and
+ * run, parameterized with DEFINE. Static diagnostics are not in it: they are
+ * gathered by a first `collect --target table` run as the diagnostic user.
+ */
+export async function emitSetupSql(out: string, opts: SetupOptions = {}): Promise<void> {
+  const schema = process.env.CAPTURE_SCHEMA;
+  const tablePattern = process.env.CAPTURE_TABLE_PATTERN;
+  const intervalMin = parseInt(process.env.SAMPLE_INTERVAL_MINUTES ?? "15", 10);
+  const user = process.env.ORACLE_USER;
+  const grantee = heartbeatGrantee(opts);
+
+  if (!schema || !tablePattern) {
+    throw new Error("Missing CAPTURE_SCHEMA or CAPTURE_TABLE_PATTERN");
+  }
+  if (!user) throw new Error("Missing env var: ORACLE_USER");
+
+  const sqlPath = path.resolve(out);
+  fs.writeFileSync(sqlPath, generateSetupScript(user, { intervalMin, schema, tablePattern }, grantee));
+
+  console.log(`✓ Setup script written to ${sqlPath}`);
+  console.log("  Have a DBA review it and run it in SQL*Plus or SQLcl, in the container holding the captured tables.");
+  console.log(`  Then, as ${user}: npm run collect -- --target table --count 1 (static diagnostics and a first sample)`);
+}
+
+// grantee: the connector user when the script also creates the heartbeat and
+// signaling tables
+function generateSetupScript(user: string, ctx: SamplerContext, grantee: string | null): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+  const vars: SamplerContext = {
+    intervalMin: "&&sample_interval",
+    schema: "&&capture_schema",
+    tablePattern: "&&capture_table_pattern",
+  };
+  const job = `${SQLPLUS_USER}.${JOB_NAME}`;
+
+  ln("-- ============================================================================");
+  ln("-- Debezium Oracle diagnostics: monitoring tables and sampler job");
+  ln(`-- Generated: ${new Date().toISOString()}`);
+  ln("-- Run as a DBA in SQL*Plus or SQLcl. Safe to rerun: existing tables keep");
+  ln("-- their samples and the job is recreated.");
+  ln("-- ============================================================================");
+  ln();
+  ln(`DEFINE diag_user = "${user.toUpperCase()}"`);
+  ln(`DEFINE capture_schema = "${ctx.schema.toUpperCase()}"`);
+  ln(`DEFINE capture_table_pattern = "${ctx.tablePattern}"`);
+  ln(`DEFINE sample_interval = ${ctx.intervalMin}`);
+  if (grantee) ln(`DEFINE connector_user = "${grantee.toUpperCase()}"`);
+  ln();
+  ln("SET DEFINE ON");
+  ln("SET VERIFY OFF");
+  ln("SET SQLBLANKLINES ON");
+  ln("WHENEVER SQLERROR EXIT SQL.SQLCODE");
+
+  ln();
+  ln("-- The captured tables are only visible from their PDB");
+  ln("BEGIN");
+  ln("  IF SYS_CONTEXT('USERENV', 'CON_NAME') = 'CDB$ROOT' THEN");
+  ln("    RAISE_APPLICATION_ERROR(-20001, 'Connected to CDB$ROOT: run this script in the PDB holding &&capture_schema');");
+  ln("  END IF;");
+  ln("END;");
+  ln("/");
+
+  ln();
+  ln("-- Views the sampler reads (direct grants: the job does not see roles)");
+  for (const view of REQUIRED_VIEWS) ln(`GRANT SELECT ON ${view.grant} TO &&diag_user;`);
+  ln("-- Optional: lets the sampler flush DML counters before reading them");
+  ln("-- GRANT ANALYZE ANY TO &&diag_user;");
+
+  ln();
+  ln("-- Room for the samples in the diagnostic user's default tablespace");
+  ln("DECLARE");
+  ln("  ts VARCHAR2(128);");
+  ln("  n  NUMBER;");
+  ln("BEGIN");
+  ln("  SELECT default_tablespace INTO ts FROM dba_users WHERE username = '&&diag_user';");
+  ln("  SELECT COUNT(*) INTO n FROM dba_ts_quotas WHERE username = '&&diag_user' AND tablespace_name = ts;");
+  ln("  IF n = 0 THEN");
+  ln("    EXECUTE IMMEDIATE 'ALTER USER &&diag_user QUOTA 100M ON ' || ts;");
+  ln("  END IF;");
+  ln("END;");
+  ln("/");
+
+  for (const table of [SAMPLE_TABLE, STATIC_TABLE, TXN_TABLE]) {
+    ln();
+    ln(`-- ${table}, kept if it exists`);
+    for (const l of ignoringErrors(`EXECUTE IMMEDIATE q'[${tableDdl(SQLPLUS_USER, table).trim()}]'`, [955])) ln(l);
+  }
+
+  ln();
+  ln(`-- ${SAMPLE_TABLE}.METRIC_NAME was VARCHAR2(100) before, too short for the per-table DML metrics`);
+  ln("DECLARE");
+  ln("  n NUMBER;");
+  ln("BEGIN");
+  ln(`  SELECT data_length INTO n FROM dba_tab_columns WHERE owner = '&&diag_user' AND table_name = '${SAMPLE_TABLE}' AND column_name = 'METRIC_NAME';`);
+  ln(`  IF n < ${METRIC_NAME_LENGTH} THEN`);
+  ln(`    EXECUTE IMMEDIATE q'[${widenMetricName(SQLPLUS_USER)}]';`);
+  ln("  END IF;");
+  ln("END;");
+  ln("/");
+
+  ln();
+  ln(`-- ${STATIC_TABLE}.CHECK_VALUE was VARCHAR2(4000) before, too small for the per-table statics`);
+  ln("DECLARE");
+  ln("  t VARCHAR2(128);");
+  ln("BEGIN");
+  ln(`  SELECT data_type INTO t FROM dba_tab_columns WHERE owner = '&&diag_user' AND table_name = '${STATIC_TABLE}' AND column_name = 'CHECK_VALUE';`);
+  ln("  IF t = 'VARCHAR2' THEN");
+  for (const sql of checkValueToClob(SQLPLUS_USER)) ln(`    EXECUTE IMMEDIATE q'[${sql}]';`);
+  ln("  END IF;");
+  ln("END;");
+  ln("/");
+
+  ln();
+  ln("-- Sampler job (every &&sample_interval min), recreated");
+  for (const l of ignoringErrors(`DBMS_SCHEDULER.DROP_JOB('${job}', TRUE)`, [27475])) ln(l);
+  ln("BEGIN");
+  ln("  DBMS_SCHEDULER.CREATE_JOB (");
+  ln(`    job_name        => '${job}',`);
+  ln("    job_type        => 'PLSQL_BLOCK',");
+  ln(`    job_action      => q'[${buildSamplerPlsql(SQLPLUS_USER, vars)}]',`);
+  ln("    start_date      => SYSTIMESTAMP,");
+  ln("    repeat_interval => 'FREQ=MINUTELY; INTERVAL=&&sample_interval',");
+  ln("    enabled         => TRUE");
+  ln("  );");
+  ln(`  DBMS_SCHEDULER.RUN_JOB('${job}', use_current_session => FALSE);`);
+  ln("END;");
+  ln("/");
+
+  if (grantee) {
+    ln();
+    ln("-- Connector heartbeat and signaling tables in &&capture_schema");
+    for (const s of heartbeatTableStatements("&&capture_schema.", "&&connector_user")) {
+      ln();
+      ln(`-- ${s.comment}`);
+      if (s.sql.startsWith("GRANT")) {
+        ln(`${s.sql};`);
+        continue;
+      }
+      for (const l of ignoringErrors(`EXECUTE IMMEDIATE q'[${s.sql}]'`, ALREADY_DONE_ERRORS)) ln(l);
+      if (s.sql.startsWith("INSERT")) ln("COMMIT;");
+    }
+  }
+  ln();
+
+  return lines.join("\n");
+}
+
+/** A SQL*Plus PL/SQL block running one statement that treats the given ORA- errors as already done. */
+export function ignoringErrors(statement: string, errors: number[]): string[] {
+  return [
+    "BEGIN",
+    `  ${statement};`,
+    "EXCEPTION",
+    `  WHEN OTHERS THEN IF SQLCODE NOT IN (${errors.map((e) => -e).join(", ")}) THEN RAISE; END IF;`,
+    "END;",
+    "/",
+  ];
+}
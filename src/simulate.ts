@@ -0,0 +1,345 @@
+import * as fs from "fs";
+import { DbConfig, withConnection } from "./db";
+import { SampleData, loadSampleData, readBundle } from "./bundle";
+import { buildDiagReport, DiagReport } from "./report";
+import { sampleRuns, SampleRun } from "./completeness";
+import { keyedMetricName, METRIC_KEY_SEPARATOR } from "./sampler";
+import { AppliedPolicy } from "./policy";
+import { percentile, round2 } from "./common";
+
+// Settings a change window would apply. Anything not given on the command
+// line defaults to the report's recommendation (or the current value where
+// the report makes none).
+export interface SimulationSettings {
+  redoLogSizeGb: number;
+  redoLogGroups: number;
+  archiveRetentionHours: number;
+  // 0 leaves ARCHIVE_LAG_TARGET off
+  archiveLagTargetSec: number;
+  // null skips the FRA checks
+  fraSizeGb: number | null;
+}
+
+export interface SimulationOptions {
+  policy: AppliedPolicy;
+  settings: Partial<SimulationSettings>;
+  out: string;
+}
+
+// Predicted state at the end of one sampler interval.
+export interface SimulatedInterval {
+  time: string;
+  redoGb: number;
+  switches: number;
+  forcedSwitches: number;
+  switchesPerHour: number;
+  archiveDiskGb: number;
+  fraUsedPct: number | null;
+  // Hours of archives on disk, limited by retention and by FRA size
+  windowHours: number;
+  // Hours LogMiner may still need: oldest open transaction or the switch term
+  neededHours: number;
+  // Switches come faster than the groups can be archived and reused
+  reuseStall: boolean;
+}
+
+const MAX_LISTED_RANGES = 10;
+
+interface RedoStream {
+  metric: string;
+  fillGb: number;
+  sinceSwitchMin: number;
+}
+
+interface ArchivedInterval {
+  ms: number;
+  gb: number;
+}
+
+export async function simulate(cfg: DbConfig, opts: SimulationOptions): Promise<void> {
+  console.log("Reading collected data...\n");
+  const data = await withConnection(cfg, (conn) => loadSampleData(conn, cfg.user));
+  runSimulation(data, opts);
+}
+
+export async function simulateFromBundle(file: string, opts: SimulationOptions): Promise<void> {
+  console.log(`Reading bundle ${file}...\n`);
+  runSimulation(readBundle(file), opts);
+}
+
+function runSimulation(data: SampleData, opts: SimulationOptions): void {
+  const r = buildDiagReport(data, opts.policy);
+  if (r.samplingDurationHours < 1) {
+    throw new Error(`Less than 1 hour of data collected (${r.samplingDurationHours.toFixed(1)} hours). Let the sampler run longer.`);
+  }
+
+  const current = currentSettings(r);
+  const settings = resolveSettings(r, current, opts.settings);
+  const intervals = replay(data, settings, opts.policy);
+
+  fs.writeFileSync(opts.out, timelineCsv(intervals));
+  console.log(formatSummary(r, current, settings, intervals, opts).join("\n"));
+  console.log(`\nTimeline: ${opts.out}`);
+}
+
+// ── Settings ────────────────────────────────────────────────────────────────
+
+function currentSettings(r: DiagReport): SimulationSettings {
+  return {
+    redoLogSizeGb: r.redoLogConfig.length > 0 ? r.redoLogConfig[0].BYTES / (1024 ** 3) : 0,
+    redoLogGroups: r.threads.length > 0
+      ? Math.min(...r.threads.map((t) => t.redoLogGroups || r.redoLogConfig.length))
+      : r.redoLogConfig.length,
+    // Oracle has no retention setting of its own; the RMAN schedule decides.
+    archiveRetentionHours: r.archiveWindowHours.min,
+    archiveLagTargetSec: r.archiveLagTarget,
+    fraSizeGb: r.fraSizeGb,
+  };
+}
+
+function resolveSettings(r: DiagReport, current: SimulationSettings, given: Partial<SimulationSettings>): SimulationSettings {
+  const rec = r.recommendations;
+  const settings: SimulationSettings = {
+    redoLogSizeGb: given.redoLogSizeGb ?? rec.redoLogSizeGb,
+    redoLogGroups: given.redoLogGroups ?? rec.redoLogGroups,
+    archiveRetentionHours: given.archiveRetentionHours ?? rec.archiveRetentionHours,
+    archiveLagTargetSec: given.archiveLagTargetSec ?? (rec.archiveLagTargetSec > 0 ? rec.archiveLagTargetSec : current.archiveLagTargetSec),
+    fraSizeGb: given.fraSizeGb !== undefined ? given.fraSizeGb : current.fraSizeGb,
+  };
+
+  const errors: string[] = [];
+  if (!(settings.redoLogSizeGb > 0)) errors.push("redo log size must be greater than 0");
+  if (!Number.isInteger(settings.redoLogGroups) || settings.redoLogGroups < 2) errors.push("redo log groups must be a whole number of at least 2");
+  if (!(settings.archiveRetentionHours > 0)) errors.push("archive retention must be greater than 0 hours");
+  if (!(settings.archiveLagTargetSec >= 0)) errors.push("ARCHIVE_LAG_TARGET must not be negative");
+  if (settings.fraSizeGb !== null && !(settings.fraSizeGb > 0)) errors.push("FRA size must be greater than 0");
+  if (errors.length > 0) throw new Error(`Invalid simulation settings:\n  - ${errors.join("\n  - ")}`);
+
+  return settings;
+}
+
+// ── Replay ──────────────────────────────────────────────────────────────────
+
+// Walks the sampler runs in order, feeding each interval's redo into the
+// proposed log groups. Redo is assumed to arrive evenly within an interval.
+// Archives written before the first sample are taken from the same series
+// repeated, i.e. the sampled period is treated as typical.
+function replay(data: SampleData, settings: SimulationSettings, policy: AppliedPolicy): SimulatedInterval[] {
+  const runs = sampleRuns(data).filter((run) => run.values.has("archive_gb"));
+  if (runs.length === 0) throw new Error("No archive_gb samples to replay");
+
+  const intervalMin = data.intervalMinutes;
+  const lagMin = settings.archiveLagTargetSec / 60;
+  const archiveWriteMin = settings.redoLogSizeGb / policy.values.archiveWriteGbPerSec;
+  const streams = redoStreams(runs);
+
+  const archived: ArchivedInterval[] = runs.map((run) => ({ ms: run.ms, gb: run.values.get("archive_gb") ?? 0 }));
+  const periodMs = archived[archived.length - 1].ms - archived[0].ms + intervalMin * 60000;
+
+  return runs.map((run, i) => {
+    let switches = 0;
+    let forcedSwitches = 0;
+    let slowestIntervalMin = 0;
+    let reuseStall = false;
+
+    for (const stream of streams) {
+      const redoGb = run.values.get(stream.metric) ?? 0;
+      const natural = Math.floor((stream.fillGb + redoGb) / settings.redoLogSizeGb);
+      stream.fillGb = stream.fillGb + redoGb - natural * settings.redoLogSizeGb;
+      stream.sinceSwitchMin = natural > 0 && redoGb > 0
+        ? Math.min(intervalMin, (intervalMin * stream.fillGb) / redoGb)
+        : stream.sinceSwitchMin + intervalMin;
+
+      // ARCHIVE_LAG_TARGET switches a partly filled log once it is this old.
+      let forced = 0;
+      if (lagMin > 0) {
+        while (stream.sinceSwitchMin >= lagMin) {
+          forced++;
+          stream.sinceSwitchMin -= lagMin;
+        }
+        if (forced > 0) stream.fillGb = redoGb > 0 ? Math.min(stream.fillGb, (redoGb * stream.sinceSwitchMin) / intervalMin) : 0;
+      }
+
+      const streamSwitches = natural + forced;
+      switches += streamSwitches;
+      forcedSwitches += forced;
+
+      const switchIntervalMin = streamSwitches > 0 ? intervalMin / streamSwitches : stream.sinceSwitchMin;
+      slowestIntervalMin = Math.max(slowestIntervalMin, switchIntervalMin);
+      // A group can be reused once it is archived; with G groups the other
+      // G-1 have to last that long.
+      if (streamSwitches > 0 && switchIntervalMin * (settings.redoLogGroups - 1) < archiveWriteMin) reuseStall = true;
+    }
+
+    const { diskGb, windowHours } = archiveWindow(archived, i, periodMs, settings);
+    const oldestTxnMin = run.values.get("oldest_txn_mins") ?? 0;
+    const switchTermMin = slowestIntervalMin * 3 + archiveWriteMin + policy.values.logMinerOverheadMin;
+
+    return {
+      time: run.time,
+      redoGb: round2(run.values.get("archive_gb") ?? 0),
+      switches,
+      forcedSwitches,
+      switchesPerHour: round2((switches * 60) / intervalMin),
+      archiveDiskGb: round2(diskGb),
+      fraUsedPct: settings.fraSizeGb !== null ? round2((diskGb / settings.fraSizeGb) * 100) : null,
+      windowHours: round2(windowHours),
+      neededHours: round2(Math.max(oldestTxnMin, switchTermMin) / 60),
+      reuseStall,
+    };
+  });
+}
+
+// One stream per redo thread, or the cluster total for samples taken before
+// the sampler recorded threads separately.
+function redoStreams(runs: SampleRun[]): RedoStream[] {
+  const prefix = `archive_gb${METRIC_KEY_SEPARATOR}`;
+  const threads = new Set<number>();
+  for (const run of runs) {
+    for (const metric of run.values.keys()) {
+      if (metric.startsWith(prefix)) threads.add(parseInt(metric.slice(prefix.length), 10));
+    }
+  }
+  const metrics = threads.size > 0
+    ? [...threads].sort((a, b) => a - b).map((t) => keyedMetricName("archive_gb", t))
+    : ["archive_gb"];
+  return metrics.map((metric) => ({ metric, fillGb: 0, sinceSwitchMin: 0 }));
+}
+
+// Archives still on disk at run i: everything inside the retention window,
+// or less if the FRA fills first and Oracle deletes the oldest to make room.
+function archiveWindow(archived: ArchivedInterval[], i: number, periodMs: number, settings: SimulationSettings): { diskGb: number; windowHours: number } {
+  const now = archived[i].ms;
+  const retentionMs = settings.archiveRetentionHours * 3600000;
+  const fraGb = settings.fraSizeGb ?? Infinity;
+
+  let diskGb = 0;
+  let j = i;
+  let offsetMs = 0;
+  while (true) {
+    const ageMs = now - (archived[j].ms - offsetMs);
+    if (ageMs >= retentionMs) return { diskGb, windowHours: settings.archiveRetentionHours };
+    if (diskGb + archived[j].gb > fraGb) return { diskGb, windowHours: ageMs / 3600000 };
+    diskGb += archived[j].gb;
+    if (--j < 0) {
+      j = archived.length - 1;
+      offsetMs += periodMs;
+    }
+  }
+}
+
+// ── Output ──────────────────────────────────────────────────────────────────
+
+function formatSummary(r: DiagReport, current: SimulationSettings, settings: SimulationSettings, intervals: SimulatedInterval[], opts: SimulationOptions): string[] {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+  const gb = (v: number | null) => (v === null ? "—" : `${round2(v)}`);
+  const lag = (v: number) => (v > 0 ? `${v}` : "off");
+
+  if (opts.policy.source) ln(`Policy: ${opts.policy.source}\n`);
+  ln(`Replaying ${intervals.length} sampler intervals (${r.samplingDurationHours.toFixed(1)} hours)\n`);
+
+  ln(`  ${"Setting".padEnd(28)} ${"Current".padStart(10)} ${"Simulated".padStart(10)}`);
+  ln(`  ${"Redo log size (GB)".padEnd(28)} ${gb(current.redoLogSizeGb).padStart(10)} ${gb(settings.redoLogSizeGb).padStart(10)}`);
+  ln(`  ${"Redo log groups per thread".padEnd(28)} ${String(current.redoLogGroups).padStart(10)} ${String(settings.redoLogGroups).padStart(10)}`);
+  ln(`  ${"Archive retention (hours)".padEnd(28)} ${`~${gb(current.archiveRetentionHours)}`.padStart(10)} ${gb(settings.archiveRetentionHours).padStart(10)}`);
+  ln(`  ${"ARCHIVE_LAG_TARGET (s)".padEnd(28)} ${lag(current.archiveLagTargetSec).padStart(10)} ${lag(settings.archiveLagTargetSec).padStart(10)}`);
+  ln(`  ${"FRA size (GB)".padEnd(28)} ${gb(current.fraSizeGb).padStart(10)} ${gb(settings.fraSizeGb).padStart(10)}`);
+  ln(`  (current retention is the shortest archive window observed)`);
+
+  const rates = intervals.map((i) => i.switchesPerHour);
+  const forced = intervals.reduce((n, i) => n + i.forcedSwitches, 0);
+  ln();
+  ln("Log switches per hour (all threads):");
+  ln(`  observed   avg ${r.switchesPerHour.avg}  p95 ${r.switchesPerHour.p95}  max ${r.switchesPerHour.max}`);
+  ln(`  predicted  avg ${round2(avg(rates))}  p95 ${round2(percentile([...rates].sort((a, b) => a - b), 0.95))}  max ${Math.max(...rates)}`);
+  if (forced > 0) ln(`  ${forced} switch(es) forced by ARCHIVE_LAG_TARGET`);
+
+  const peak = intervals.reduce((a, b) => (b.archiveDiskGb > a.archiveDiskGb ? b : a));
+  ln();
+  ln("Archive disk usage:");
+  ln(`  avg ${round2(avg(intervals.map((i) => i.archiveDiskGb)))} GB, peak ${peak.archiveDiskGb} GB at ${peak.time}`);
+  if (settings.fraSizeGb !== null) {
+    const full = intervals.filter((i) => (i.fraUsedPct ?? 0) >= 100 || i.windowHours < settings.archiveRetentionHours).length;
+    ln(`  FRA peak ${peak.fraUsedPct}% of ${settings.fraSizeGb} GB`);
+    if (full > 0) ln(`  ⚠ FRA full in ${full} interval(s): ${settings.archiveRetentionHours}h of archives do not fit`);
+  }
+
+  const stalls = intervals.filter((i) => i.reuseStall);
+  if (stalls.length > 0) {
+    ln();
+    ln(`⚠ ${stalls.length} interval(s) switch faster than ${settings.redoLogGroups} groups can be archived and reused (first at ${stalls[0].time})`);
+  }
+
+  const shortfalls = shortfallRanges(intervals);
+  ln();
+  if (shortfalls.length === 0) {
+    const margin = Math.min(...intervals.map((i) => i.windowHours - i.neededHours));
+    ln(`✓ The archive window covers what LogMiner needs in every interval (smallest margin ${round2(margin)} h)`);
+  } else {
+    ln(`✗ Archive window below what LogMiner needs in ${shortfalls.reduce((n, s) => n + s.intervals, 0)} interval(s):`);
+    for (const s of shortfalls.slice(0, MAX_LISTED_RANGES)) {
+      ln(`  ${s.from} → ${s.to}: needs ${s.neededHours} h, ${s.windowHours} h on disk`);
+    }
+    if (shortfalls.length > MAX_LISTED_RANGES) ln(`  ... and ${shortfalls.length - MAX_LISTED_RANGES} more (see the timeline)`);
+  }
+
+  return lines;
+}
+
+interface ShortfallRange {
+  from: string;
+  to: string;
+  intervals: number;
+  neededHours: number;
+  windowHours: number;
+}
+
+// Consecutive short intervals collapse into one range with the worst values.
+function shortfallRanges(intervals: SimulatedInterval[]): ShortfallRange[] {
+  const ranges: ShortfallRange[] = [];
+  let open: ShortfallRange | null = null;
+  for (const i of intervals) {
+    if (i.windowHours >= i.neededHours) {
+      open = null;
+      continue;
+    }
+    if (!open) {
+      open = { from: i.time, to: i.time, intervals: 0, neededHours: 0, windowHours: i.windowHours };
+      ranges.push(open);
+    }
+    open.to = i.time;
+    open.intervals++;
+    open.neededHours = Math.max(open.neededHours, i.neededHours);
+    open.windowHours = Math.min(open.windowHours, i.windowHours);
+  }
+  return ranges;
+}
+
+function timelineCsv(intervals: SimulatedInterval[]): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+
+  ln("time,redo_gb,switches,forced_switches,switches_per_hour,archive_disk_gb,fra_used_pct,window_hours,needed_hours,shortfall,reuse_stall");
+  for (const i of intervals) {
+    ln([
+      i.time,
+      i.redoGb,
+      i.switches,
+      i.forcedSwitches,
+      i.switchesPerHour,
+      i.archiveDiskGb,
+      i.fraUsedPct ?? "",
+      i.windowHours,
+      i.neededHours,
+      i.windowHours < i.neededHours ? 1 : 0,
+      i.reuseStall ? 1 : 0,
+    ].join(","));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function avg(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
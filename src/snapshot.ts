@@ -0,0 +1,129 @@
+import { Policy } from "./policy";
+import { ENVELOPE_BYTES, TOPIC_REPLICATION_FACTOR } from "./topics";
+import { round2 } from "./common";
+
+// Undo settings the initial snapshot has to fit in.
+export interface UndoRetention {
+  // undo_retention parameter
+  parameterSec: number;
+  // Lowest tuned_undoretention in v$undostat over the last day; null when
+  // v$undostat was empty
+  tunedMinSec: number | null;
+  guaranteed: boolean;
+}
+
+export interface SnapshotTable {
+  table: string;
+  rows: number;
+  segmentMb: number;
+  avgRowLen: number;
+  // One snapshot thread
+  minutes: number;
+  // No optimizer statistics: rows were estimated from the segment size
+  estimated: boolean;
+}
+
+export interface SnapshotPlan {
+  // snapshot.mode: "initial", or "no_data" when incremental snapshots are safer
+  mode: string;
+  incremental: boolean;
+  fetchSize: number;
+  maxThreads: number;
+  totalRows: number;
+  totalSegmentGb: number;
+  // Snapshot events as published, and as stored with topic replication
+  kafkaGb: number;
+  kafkaStorageGb: number;
+  durationMinutes: number;
+  undoRetentionMin: number | null;
+  // Null when undo retention is unknown
+  fitsUndo: boolean | null;
+  // Longest first; the first is the floor for the duration
+  tables: SnapshotTable[];
+}
+
+// Rows per fetch round trip are sized to move about this much data.
+const FETCH_TARGET_BYTES = 8 * 1024 * 1024;
+const MIN_FETCH_SIZE = 1000;
+const MAX_FETCH_SIZE = 20000;
+const DEFAULT_ROW_LEN = 200;
+
+export function getUndoRetention(rows: any): UndoRetention | null {
+  const row = Array.isArray(rows) ? rows[0] : null;
+  if (!row || row.UNDO_RETENTION === null || row.UNDO_RETENTION === undefined) return null;
+  return {
+    parameterSec: Number(row.UNDO_RETENTION),
+    tunedMinSec: row.TUNED_MIN === null || row.TUNED_MIN === undefined ? null : Number(row.TUNED_MIN),
+    guaranteed: row.RETENTION === "GUARANTEE",
+  };
+}
+
+/**
+ * Plans a blocking initial snapshot of the captured tables. Every table is
+ * read as of the same SCN, so the whole snapshot, not just one table, has to
+ * finish inside the undo retention.
+ */
+export function planSnapshot(tableStats: any[], undo: UndoRetention | null, policy: Policy): SnapshotPlan {
+  const tables = (tableStats ?? []).map((t: any) => snapshotTable(t, policy))
+    .sort((a: SnapshotTable, b: SnapshotTable) => b.minutes - a.minutes);
+
+  const totalMinutes = tables.reduce((sum, t) => sum + t.minutes, 0);
+  const longest = tables[0]?.minutes ?? 0;
+  // Threads beyond total ÷ longest only wait on the longest table.
+  const maxThreads = Math.max(1, Math.min(
+    policy.snapshotMaxThreads,
+    tables.length,
+    longest > 0 ? Math.ceil(totalMinutes / longest) : 1
+  ));
+  const durationMinutes = makespan(tables.map((t) => t.minutes), maxThreads);
+
+  const undoRetentionMin = undo ? (undo.guaranteed ? undo.parameterSec : undo.tunedMinSec ?? undo.parameterSec) / 60 : null;
+  const fitsUndo = undoRetentionMin === null ? null : durationMinutes + policy.safetyBufferMin <= undoRetentionMin;
+  const incremental = fitsUndo === false;
+
+  const widest = Math.max(0, ...tables.map((t) => t.avgRowLen)) || DEFAULT_ROW_LEN;
+  const fetchSize = Math.min(MAX_FETCH_SIZE, Math.max(MIN_FETCH_SIZE, Math.floor(FETCH_TARGET_BYTES / widest / 1000) * 1000));
+
+  const kafkaBytes = tables.reduce((sum, t) => sum + t.rows * (t.avgRowLen + ENVELOPE_BYTES), 0);
+  return {
+    mode: incremental ? "no_data" : "initial",
+    incremental,
+    fetchSize,
+    maxThreads,
+    totalRows: tables.reduce((sum, t) => sum + t.rows, 0),
+    totalSegmentGb: round2(tables.reduce((sum, t) => sum + t.segmentMb, 0) / 1024),
+    kafkaGb: round2(kafkaBytes / 1024 ** 3),
+    kafkaStorageGb: round2((kafkaBytes / 1024 ** 3) * TOPIC_REPLICATION_FACTOR),
+    durationMinutes: round2(durationMinutes),
+    undoRetentionMin: undoRetentionMin === null ? null : round2(undoRetentionMin),
+    fitsUndo,
+    tables,
+  };
+}
+
+function snapshotTable(row: any, policy: Policy): SnapshotTable {
+  const avgRowLen = row.AVG_ROW_LEN || DEFAULT_ROW_LEN;
+  const segmentBytes = Number(row.SEGMENT_BYTES ?? 0);
+  const estimated = row.NUM_ROWS === null || row.NUM_ROWS === undefined;
+  const rows = estimated ? Math.round(segmentBytes / avgRowLen) : Number(row.NUM_ROWS);
+  const seconds = Math.max(rows / policy.snapshotRowsPerSec, (rows * avgRowLen) / (policy.snapshotMbPerSec * 1024 * 1024));
+  return {
+    table: row.TABLE_NAME,
+    rows,
+    segmentMb: round2(segmentBytes / 1024 / 1024),
+    avgRowLen,
+    minutes: round2(seconds / 60),
+    estimated,
+  };
+}
+
+// Longest-first greedy assignment of tables to threads: close to what a
+// thread pool taking the next table whenever a thread frees up achieves.
+function makespan(minutes: number[], threads: number): number {
+  const load = new Array<number>(threads).fill(0);
+  for (const m of minutes) {
+    const i = load.indexOf(Math.min(...load));
+    load[i] += m;
+  }
+  return Math.max(0, ...load);
+}
@@ -0,0 +1,135 @@
+import oracledb from "oracledb";
+import { DbConfig, withConnection, queryRows } from "./db";
+import { SampleData, loadSampleData, readBundle, sampleTimeMs } from "./bundle";
+import { Completeness, analyzeCompleteness } from "./completeness";
+import { TIME_FORMAT } from "./common";
+
+const SAMPLE_TABLE = "DBZ_DIAG_SAMPLES";
+const JOB_NAME = "DBZ_DIAG_SAMPLER";
+
+// The sampler counts as stalled once this many intervals pass without a sample.
+const STALL_FACTOR = 2;
+
+interface JobInfo {
+  ENABLED: string;
+  STATE: string;
+  LAST_START: string | null;
+  NEXT_RUN: string | null;
+  RUN_COUNT: number;
+  FAILURE_COUNT: number;
+}
+
+interface JobFailure {
+  LOG_DATE: string;
+  STATUS: string;
+  ERROR_NUM: number;
+  ERROR_TEXT: string | null;
+}
+
+export async function status(cfg: DbConfig): Promise<void> {
+  await withConnection(cfg, async (conn) => {
+    console.log(`Sampler job ${JOB_NAME}`);
+    const job = await getJobInfo(conn);
+    if (!job) {
+      console.log("  Not found. Run setup, or use collect if this account cannot create jobs.");
+    } else {
+      console.log(`  Enabled:       ${job.ENABLED}`);
+      console.log(`  State:         ${job.STATE}`);
+      console.log(`  Last run:      ${job.LAST_START ?? "never"}`);
+      console.log(`  Next run:      ${job.NEXT_RUN ?? "not scheduled"}`);
+      console.log(`  Runs/failures: ${job.RUN_COUNT}/${job.FAILURE_COUNT}`);
+
+      const failures = await getJobFailures(conn);
+      if (failures.length > 0) {
+        console.log(`\n  Recent failures:`);
+        for (const f of failures) {
+          console.log(`    ${f.LOG_DATE}  ${f.STATUS}  ORA-${String(f.ERROR_NUM).padStart(5, "0")}`);
+          if (f.ERROR_TEXT) console.log(`      ${f.ERROR_TEXT.trim().split("\n").join("\n      ")}`);
+        }
+      }
+    }
+
+    let data: SampleData;
+    try {
+      data = await loadSampleData(conn, cfg.user);
+    } catch (e: any) {
+      console.log(`\nSamples: cannot read ${cfg.user}.${SAMPLE_TABLE} (${e.message})`);
+      return;
+    }
+
+    const now = await queryRows<{ NOW: string }>(conn, `SELECT TO_CHAR(SYSTIMESTAMP, ${TIME_FORMAT}) AS NOW FROM dual`);
+    printCompleteness(data, now[0].NOW);
+  });
+}
+
+export async function statusFromBundle(file: string): Promise<void> {
+  console.log(`Samples in ${file}`);
+  printCompleteness(readBundle(file), null);
+}
+
+async function getJobInfo(conn: oracledb.Connection): Promise<JobInfo | null> {
+  const rows = await queryRows<JobInfo>(conn, `
+    SELECT enabled AS ENABLED,
+           state AS STATE,
+           TO_CHAR(last_start_date, 'YYYY-MM-DD HH24:MI:SS') AS LAST_START,
+           TO_CHAR(next_run_date, 'YYYY-MM-DD HH24:MI:SS') AS NEXT_RUN,
+           NVL(run_count, 0) AS RUN_COUNT,
+           NVL(failure_count, 0) AS FAILURE_COUNT
+    FROM user_scheduler_jobs
+    WHERE job_name = :job
+  `, { job: JOB_NAME });
+  return rows[0] ?? null;
+}
+
+async function getJobFailures(conn: oracledb.Connection): Promise<JobFailure[]> {
+  return queryRows<JobFailure>(conn, `
+    SELECT TO_CHAR(log_date, 'YYYY-MM-DD HH24:MI:SS') AS LOG_DATE,
+           status AS STATUS,
+           error# AS ERROR_NUM,
+           additional_info AS ERROR_TEXT
+    FROM user_scheduler_job_run_details
+    WHERE job_name = :job AND status <> 'SUCCEEDED'
+    ORDER BY log_date DESC
+    FETCH FIRST 10 ROWS ONLY
+  `, { job: JOB_NAME });
+}
+
+function printCompleteness(data: SampleData, now: string | null): void {
+  const c = analyzeCompleteness(data);
+
+  console.log(`\nSamples (every ${data.intervalMinutes} min)`);
+  if (!c.firstSample || !c.lastSample) {
+    console.log("  None collected yet.");
+    return;
+  }
+
+  console.log(`  First:    ${c.firstSample}`);
+  console.log(`  Last:     ${c.lastSample}`);
+  console.log(`  Runs:     ${c.actualRuns} of ${c.expectedRuns} expected (${c.coveragePct}%)`);
+
+  if (now) {
+    const ageMin = (sampleTimeMs(now) - sampleTimeMs(c.lastSample)) / 60000;
+    console.log(`  Age:      ${ageMin.toFixed(0)} min since last sample`);
+    if (ageMin > data.intervalMinutes * STALL_FACTOR) {
+      console.log(`  ⚠ No sample for over ${STALL_FACTOR} intervals — the sampler is not running.`);
+    }
+  }
+
+  console.log("\n  Per metric:");
+  for (const [metric, count] of Object.entries(c.metricCounts).sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`    ${metric.padEnd(28)} ${count}`);
+  }
+
+  printGaps(c);
+}
+
+function printGaps(c: Completeness): void {
+  if (c.gaps.length === 0) {
+    console.log("\n  No gaps in the sample timeline.");
+    return;
+  }
+  console.log(`\n  ⚠ ${c.gaps.length} gap(s) in the sample timeline:`);
+  for (const g of c.gaps) {
+    console.log(`    ${g.from} → ${g.to}  (${g.hours}h, ${g.missedSamples} missed)`);
+  }
+}
@@ -1,7 +1,11 @@
+import * as fs from "fs";
+import * as path from "path";
 import { DbConfig, withConnection, execute } from "./db";
+import { ignoringErrors } from "./setup";
 
 const SAMPLE_TABLE = "DBZ_DIAG_SAMPLES";
 const STATIC_TABLE = "DBZ_DIAG_STATIC";
+const TXN_TABLE = "DBZ_DIAG_TXN_DETAIL";
 const JOB_NAME = "DBZ_DIAG_SAMPLER";
 
 export async function teardown(cfg: DbConfig): Promise<void> {
@@ -15,7 +19,7 @@ export async function teardown(cfg: DbConfig): Promise<void> {
       console.log(`  Job ${JOB_NAME} not found (already removed)`);
     }
 
-    for (const table of [SAMPLE_TABLE, STATIC_TABLE]) {
+    for (const table of [SAMPLE_TABLE, STATIC_TABLE, TXN_TABLE]) {
       try {
         await execute(conn, `DROP TABLE ${cfg.user}.${table} PURGE`);
         console.log(`  Dropped table ${table}`);
@@ -27,3 +31,48 @@ export async function teardown(cfg: DbConfig): Promise<void> {
     console.log("\n✓ Teardown complete.");
   });
 }
+
+// ── SQL*Plus script ─────────────────────────────────────────────────────────
+
+/** Writes what teardown would execute as a SQL*Plus script; safe to rerun. */
+export async function emitTeardownSql(out: string): Promise<void> {
+  const user = process.env.ORACLE_USER;
+  if (!user) throw new Error("Missing env var: ORACLE_USER");
+
+  const sqlPath = path.resolve(out);
+  fs.writeFileSync(sqlPath, generateTeardownScript(user));
+
+  console.log(`✓ Teardown script written to ${sqlPath}`);
+  console.log("  Have a DBA review it and run it in SQL*Plus or SQLcl.");
+}
+
+function generateTeardownScript(user: string): string {
+  const lines: string[] = [];
+  const ln = (s = "") => lines.push(s);
+
+  ln("-- ============================================================================");
+  ln("-- Debezium Oracle diagnostics: remove the sampler job and monitoring tables");
+  ln(`-- Generated: ${new Date().toISOString()}`);
+  ln("-- Run as a DBA in SQL*Plus or SQLcl. Safe to rerun: missing objects are skipped.");
+  ln("-- ============================================================================");
+  ln();
+  ln(`DEFINE diag_user = "${user.toUpperCase()}"`);
+  ln();
+  ln("SET DEFINE ON");
+  ln("SET VERIFY OFF");
+  ln("WHENEVER SQLERROR EXIT SQL.SQLCODE");
+
+  // A period ends the substitution variable, hence the double period.
+  ln();
+  ln("-- Sampler job");
+  for (const l of ignoringErrors(`DBMS_SCHEDULER.DROP_JOB('&&diag_user..${JOB_NAME}', TRUE)`, [27475])) ln(l);
+
+  for (const table of [SAMPLE_TABLE, STATIC_TABLE, TXN_TABLE]) {
+    ln();
+    ln(`-- ${table}`);
+    for (const l of ignoringErrors(`EXECUTE IMMEDIATE 'DROP TABLE &&diag_user..${table} PURGE'`, [942])) ln(l);
+  }
+  ln();
+
+  return lines.join("\n");
+}
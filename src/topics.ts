@@ -0,0 +1,95 @@
+import { SampleData, sampleTimeMs } from "./bundle";
+import { METRIC_KEY_SEPARATOR } from "./sampler";
+import { percentile, round2 } from "./common";
+
+export interface TopicEstimate {
+  table: string;
+  avgRowLen: number;
+  eventsPerSec: number;
+  peakEventsPerSec: number;
+  eventBytes: number;
+  bytesPerSec: number;
+  peakBytesPerSec: number;
+  partitions: number;
+  storageGbPerDay: number;
+  retainedStorageGb: number;
+}
+
+// A change event carries the row twice (before and after images) plus the
+// envelope: source block, op, timestamps and key. Schemas are assumed to live
+// in a registry, not inline in every message.
+export const ENVELOPE_BYTES = 400;
+const DEFAULT_ROW_LEN = 200;
+
+// Per-partition throughput a single consumer comfortably keeps up with.
+const PARTITION_BYTES_PER_SEC = 1024 * 1024;
+const PARTITION_EVENTS_PER_SEC = 1000;
+
+// Kafka's default log.retention.hours, and the usual replication factor.
+export const TOPIC_RETENTION_DAYS = 7;
+export const TOPIC_REPLICATION_FACTOR = 3;
+
+export function estimateTopics(data: SampleData, tableStats: any[]): TopicEstimate[] {
+  const prefix = `table_dml${METRIC_KEY_SEPARATOR}`;
+  const series = new Map<string, Array<{ ms: number; value: number }>>();
+  for (const s of data.samples) {
+    if (!s.metric.startsWith(prefix)) continue;
+    const table = s.metric.slice(prefix.length);
+    if (!series.has(table)) series.set(table, []);
+    series.get(table)!.push({ ms: sampleTimeMs(s.time), value: s.value });
+  }
+
+  const rowLens = new Map<string, number>(
+    (tableStats ?? []).map((t: any) => [t.TABLE_NAME, t.AVG_ROW_LEN ?? 0])
+  );
+
+  const estimates: TopicEstimate[] = [];
+  for (const [table, points] of series) {
+    points.sort((a, b) => a.ms - b.ms);
+    const rates = dmlRates(points);
+    if (rates.length === 0) continue;
+
+    const totalEvents = rates.reduce((sum, r) => sum + r.events, 0);
+    const totalSec = rates.reduce((sum, r) => sum + r.seconds, 0);
+    const eventsPerSec = totalSec > 0 ? totalEvents / totalSec : 0;
+    const peakEventsPerSec = percentile(rates.map((r) => r.events / r.seconds).sort((a, b) => a - b), 0.95);
+
+    const avgRowLen = rowLens.get(table) || DEFAULT_ROW_LEN;
+    const eventBytes = avgRowLen * 2 + ENVELOPE_BYTES;
+    const bytesPerSec = eventsPerSec * eventBytes;
+    const peakBytesPerSec = peakEventsPerSec * eventBytes;
+    const storageGbPerDay = (bytesPerSec * 86400) / 1024 ** 3;
+
+    estimates.push({
+      table,
+      avgRowLen,
+      eventsPerSec: round2(eventsPerSec),
+      peakEventsPerSec: round2(peakEventsPerSec),
+      eventBytes,
+      bytesPerSec: Math.round(bytesPerSec),
+      peakBytesPerSec: Math.round(peakBytesPerSec),
+      partitions: Math.max(
+        1,
+        Math.ceil(peakBytesPerSec / PARTITION_BYTES_PER_SEC),
+        Math.ceil(peakEventsPerSec / PARTITION_EVENTS_PER_SEC)
+      ),
+      storageGbPerDay: round2(storageGbPerDay),
+      retainedStorageGb: round2(storageGbPerDay * TOPIC_RETENTION_DAYS * TOPIC_REPLICATION_FACTOR),
+    });
+  }
+
+  return estimates.sort((a, b) => b.bytesPerSec - a.bytesPerSec);
+}
+
+// DBA_TAB_MODIFICATIONS counts are cumulative and reset to zero when the
+// table's statistics are gathered, so a drop means "restarted from zero".
+function dmlRates(points: Array<{ ms: number; value: number }>): Array<{ events: number; seconds: number }> {
+  const rates: Array<{ events: number; seconds: number }> = [];
+  for (let i = 1; i < points.length; i++) {
+    const seconds = (points[i].ms - points[i - 1].ms) / 1000;
+    if (seconds <= 0) continue;
+    const delta = points[i].value - points[i - 1].value;
+    rates.push({ events: delta >= 0 ? delta : points[i].value, seconds });
+  }
+  return rates;
+}
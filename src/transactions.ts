@@ -0,0 +1,103 @@
+import { SampleData } from "./bundle";
+
+// One open transaction followed across the samples it appeared in.
+export interface LongTransaction {
+  instId: number;
+  sid: number;
+  serial: number;
+  username: string | null;
+  program: string | null;
+  module: string | null;
+  machine: string | null;
+  sqlIds: string[];
+  startTime: string;
+  startScn: number;
+  maxAgeMins: number;
+  maxUsedUblk: number;
+  maxUsedUrec: number;
+  samples: number;
+}
+
+// Transactions grouped by who opened them.
+export interface TransactionSource {
+  username: string | null;
+  program: string | null;
+  module: string | null;
+  transactions: number;
+  maxAgeMins: number;
+  // Sampler runs in which this source held the oldest open transaction, i.e.
+  // set the oldest_txn_mins value that drives the retention recommendations.
+  oldestInSamples: number;
+}
+
+export interface TransactionAttribution {
+  longest: LongTransaction[];
+  sources: TransactionSource[];
+}
+
+const TOP_OFFENDERS = 10;
+
+export function analyzeTransactions(data: SampleData): TransactionAttribution {
+  const txns = new Map<string, LongTransaction>();
+  const oldestPerRun = new Map<string, { ageMins: number; source: string }>();
+  const sources = new Map<string, TransactionSource>();
+
+  for (const t of data.transactions) {
+    // The SID and serial are reused once the session ends; the start SCN is not.
+    const id = `${t.instId}:${t.sid}:${t.serial}:${t.startScn}`;
+    let txn = txns.get(id);
+    if (!txn) {
+      txn = {
+        instId: t.instId,
+        sid: t.sid,
+        serial: t.serial,
+        username: t.username,
+        program: t.program,
+        module: t.module,
+        machine: t.machine,
+        sqlIds: [],
+        startTime: t.startTime,
+        startScn: t.startScn,
+        maxAgeMins: 0,
+        maxUsedUblk: 0,
+        maxUsedUrec: 0,
+        samples: 0,
+      };
+      txns.set(id, txn);
+    }
+    txn.samples++;
+    txn.maxAgeMins = Math.max(txn.maxAgeMins, t.ageMins);
+    txn.maxUsedUblk = Math.max(txn.maxUsedUblk, t.usedUblk);
+    txn.maxUsedUrec = Math.max(txn.maxUsedUrec, t.usedUrec);
+    if (t.sqlId && !txn.sqlIds.includes(t.sqlId)) txn.sqlIds.push(t.sqlId);
+
+    const source = sourceKey(t);
+    const oldest = oldestPerRun.get(t.time);
+    if (!oldest || t.ageMins > oldest.ageMins) oldestPerRun.set(t.time, { ageMins: t.ageMins, source });
+  }
+
+  for (const txn of txns.values()) {
+    const key = sourceKey(txn);
+    let source = sources.get(key);
+    if (!source) {
+      source = { username: txn.username, program: txn.program, module: txn.module, transactions: 0, maxAgeMins: 0, oldestInSamples: 0 };
+      sources.set(key, source);
+    }
+    source.transactions++;
+    source.maxAgeMins = Math.max(source.maxAgeMins, txn.maxAgeMins);
+  }
+  for (const { source } of oldestPerRun.values()) {
+    sources.get(source)!.oldestInSamples++;
+  }
+
+  return {
+    longest: [...txns.values()].sort((a, b) => b.maxAgeMins - a.maxAgeMins).slice(0, TOP_OFFENDERS),
+    sources: [...sources.values()]
+      .sort((a, b) => b.oldestInSamples - a.oldestInSamples || b.maxAgeMins - a.maxAgeMins)
+      .slice(0, TOP_OFFENDERS),
+  };
+}
+
+function sourceKey(t: { username: string | null; program: string | null; module: string | null }): string {
+  return [t.username, t.program, t.module].join("|");
+}